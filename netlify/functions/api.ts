@@ -10,13 +10,19 @@
  * - Optimization: Configured for minimal startup latency and cold-start monitoring.
  * - Security: Integrated Helmet and CORS middleware for hardened production access.
  */
-import express, { Request, Response } from 'express';
+import express, { NextFunction, Request, Response } from 'express';
 import serverless from 'serverless-http';
 import helmet from 'helmet';
 import cors from 'cors';
 import dotenv from 'dotenv';
 import { githubRouter } from '../../src/routes/github';
+import { circuitBreakerStatus } from '../../src/github/circuitBreaker';
+import { getTokenPool } from '../../src/github/tokenPool';
+import { AppError } from '../../src/errors';
 import { errorHandler } from '../../src/middleware/errorHandler';
+import { metricsEndpoint, requestMetrics } from '../../src/middleware/metrics';
+import { trustProxySetting } from '../../src/middleware/rateLimit';
+import { requestId } from '../../src/middleware/requestId';
 import { requestLogger } from '../../src/middleware/requestLogger';
 
 /**
@@ -33,6 +39,16 @@ dotenv.config();
  */
 const app = express();
 
+// Requests arrive through Netlify's edge, which appends the client IP to X-Forwarded-For.
+// Trust that single hop only (or TRUST_PROXY): earlier entries are client-supplied.
+app.set('trust proxy', trustProxySetting(1));
+
+// Tag every response with an ID (Netlify's own request ID when present)
+app.use(requestId);
+
+// Count and time every request for the Prometheus metrics (per function instance)
+app.use(requestMetrics);
+
 // Security middleware - adds various HTTP headers for security
 app.use(helmet());
 
@@ -60,7 +76,7 @@ const corsOriginHandler = (origin: string | undefined, callback: (err: Error | n
 		callback(null, true);
 	} else {
 		console.warn(`CORS blocked request from origin: ${origin}`);
-		callback(new Error(`Origin ${origin} not allowed by CORS policy`));
+		callback(new AppError(403, 'ORIGIN_NOT_ALLOWED', `Origin ${origin} not allowed by CORS policy`));
 	}
 };
 
@@ -97,6 +113,8 @@ app.get('/health', (req: Request, res: Response) => {
 			used: Math.round(process.memoryUsage().heapUsed / 1024 / 1024),
 			total: Math.round(process.memoryUsage().heapTotal / 1024 / 1024)
 		},
+		tokenPool: getTokenPool().status(),
+		circuits: circuitBreakerStatus(),
 		coldStart: isColdStart
 	});
 
@@ -104,6 +122,11 @@ app.get('/health', (req: Request, res: Response) => {
 	warmFunction = true;
 });
 
+/**
+ * Prometheus metrics for this function instance.
+ */
+app.get('/metrics', metricsEndpoint);
+
 // Mount GitHub API routes
 app.use('/api/github', githubRouter);
 
@@ -122,6 +145,10 @@ app.get('/api', (req: Request, res: Response) => {
 				path: 'GET /.netlify/functions/api/health',
 				description: 'Serverless function health check and status'
 			},
+			metrics: {
+				path: 'GET /.netlify/functions/api/metrics',
+				description: 'Prometheus metrics (text format) of the function instance that answers'
+			},
 			github: {
 				proxy: {
 					path: 'GET /.netlify/functions/api/api/github/v2?endpoint=<github-path>&cache=<true|false>',
@@ -131,18 +158,87 @@ app.get('/api', (req: Request, res: Response) => {
 						'/.netlify/functions/api/api/github/v2?endpoint=/users/octocat/repos&cache=true'
 					]
 				},
+				batch: {
+					path: 'POST /.netlify/functions/api/api/github/v2/batch',
+					description: 'Run up to 20 proxy requests in one call; body is [{ endpoint, cache? }, ...]',
+					examples: [
+						'[{ "endpoint": "/users/octocat", "cache": true }, { "endpoint": "/users/octocat/repos" }]'
+					]
+				},
 				stats: {
-					path: 'GET /.netlify/functions/api/api/github/v2/stats?username=<username>&force=<true|false>',
+					path: 'GET /.netlify/functions/api/api/github/v2/stats?username=<username>&force=<true|false>&range=<year|all>',
 					description: 'Comprehensive GitHub user statistics with caching',
 					examples: [
 						'/.netlify/functions/api/api/github/v2/stats?username=amitxd75',
-						'/.netlify/functions/api/api/github/v2/stats/amitxd75?force=true'
+						'/.netlify/functions/api/api/github/v2/stats/amitxd75?force=true',
+						'/.netlify/functions/api/api/github/v2/stats/amitxd75?range=all'
+					]
+				},
+				compare: {
+					path: 'GET /.netlify/functions/api/api/github/v2/compare?users=<a>,<b>,<c>&range=<year|all>',
+					description: 'Side-by-side user stats with per-metric rankings and language overlap',
+					examples: [
+						'/.netlify/functions/api/api/github/v2/compare?users=amitxd75,octocat'
+					]
+				},
+				orgStats: {
+					path: 'GET /.netlify/functions/api/api/github/v2/orgs/:org/stats?force=<true|false>',
+					description: 'Aggregated organization statistics: repos, stars, forks, languages, members',
+					examples: [
+						'/.netlify/functions/api/api/github/v2/orgs/github/stats'
+					]
+				},
+				repoStats: {
+					path: 'GET /.netlify/functions/api/api/github/v2/repos/:owner/:repo/stats?force=<true|false>',
+					description: 'Normalized single-repository summary: stars, issues, PRs, languages, release, last commit',
+					examples: [
+						'/.netlify/functions/api/api/github/v2/repos/amitxd75/github-api-backend/stats'
+					]
+				},
+				statsCard: {
+					path: 'GET /.netlify/functions/api/api/github/v2/stats/:username/card.svg',
+					description: 'Embeddable SVG stats card with themes and custom colors',
+					examples: [
+						'/.netlify/functions/api/api/github/v2/stats/amitxd75/card.svg?theme=dark',
+						'/.netlify/functions/api/api/github/v2/stats/amitxd75/card.svg?hide=issues,followers&title_color=ff6e96'
 					]
 				},
+				languagesCard: {
+					path: 'GET /.netlify/functions/api/api/github/v2/stats/:username/languages.svg',
+					description: 'Embeddable SVG top-languages card (bar, compact or donut layout)',
+					examples: [
+						'/.netlify/functions/api/api/github/v2/stats/amitxd75/languages.svg?layout=donut&langs_count=6',
+						'/.netlify/functions/api/api/github/v2/stats/amitxd75/languages.svg?layout=compact&hide=html,css'
+					]
+				},
+				contributions: {
+					path: 'GET /.netlify/functions/api/api/github/v2/contributions/:username?from=<YYYY-MM-DD>&to=<YYYY-MM-DD>',
+					description: 'Per-day contribution calendar for any date range (multi-year ranges supported)',
+					examples: [
+						'/.netlify/functions/api/api/github/v2/contributions/amitxd75',
+						'/.netlify/functions/api/api/github/v2/contributions/amitxd75?from=2022-01-01&to=2024-12-31'
+					]
+				},
+				heatmap: {
+					path: 'GET /.netlify/functions/api/api/github/v2/contributions/:username/heatmap.svg',
+					description: 'GitHub-style contribution heatmap SVG with selectable color scales',
+					examples: [
+						'/.netlify/functions/api/api/github/v2/contributions/amitxd75/heatmap.svg',
+						'/.netlify/functions/api/api/github/v2/contributions/amitxd75/heatmap.svg?year=2024&scale=github_dark'
+					]
+				},
+				rateLimit: {
+					path: 'GET /.netlify/functions/api/api/github/v2/ratelimit',
+					description: 'GitHub rate limit budgets (core, search, GraphQL) as last reported upstream'
+				},
 				cache: {
 					status: 'GET /.netlify/functions/api/api/github/v2/cache/status',
 					clear: 'DELETE /.netlify/functions/api/api/github/v2/cache',
-					clearEndpoint: 'DELETE /.netlify/functions/api/api/github/v2/cache/:endpoint'
+					clearEndpoint: 'DELETE /.netlify/functions/api/api/github/v2/cache/:endpoint',
+					admin: {
+						routes: ['clear', 'clearEndpoint', 'status (key listing)'],
+						auth: 'Authorization: Bearer <ADMIN_TOKEN>, or X-Admin-Timestamp + X-Admin-Signature (HMAC-SHA256)'
+					}
 				}
 			}
 		},
@@ -162,21 +258,22 @@ app.get('/api', (req: Request, res: Response) => {
 /**
  * 404 handler for undefined routes in serverless environment.
  */
-app.use((req: Request, res: Response) => {
-	res.status(404).json({
-		error: 'Route not found',
-		path: req.originalUrl,
-		method: req.method,
-		platform: 'netlify-functions',
-		suggestion: 'Check the API documentation at /.netlify/functions/api/api for available endpoints',
-		availableEndpoints: [
-			'GET /.netlify/functions/api/health',
-			'GET /.netlify/functions/api/api',
-			'GET /.netlify/functions/api/api/github/v2/?endpoint=<github-path>',
-			'GET /.netlify/functions/api/api/github/v2/stats?username=<username>',
-			'GET /.netlify/functions/api/api/github/v2/cache/status'
-		]
-	});
+app.use((req: Request, res: Response, next: NextFunction) => {
+	next(new AppError(404, 'ROUTE_NOT_FOUND', 'Route not found', {
+		details: {
+			path: req.originalUrl,
+			method: req.method,
+			platform: 'netlify-functions',
+			suggestion: 'Check the API documentation at /.netlify/functions/api/api for available endpoints',
+			availableEndpoints: [
+				'GET /.netlify/functions/api/health',
+				'GET /.netlify/functions/api/api',
+				'GET /.netlify/functions/api/api/github/v2/?endpoint=<github-path>',
+				'GET /.netlify/functions/api/api/github/v2/stats?username=<username>',
+				'GET /.netlify/functions/api/api/github/v2/cache/status'
+			]
+		}
+	}));
 });
 
 // Global error handling middleware (must be last)
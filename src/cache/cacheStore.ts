@@ -0,0 +1,318 @@
+/**
+ * Pluggable Cache Storage
+ *
+ * Defines the async `CacheStore` contract used by the stats and proxy caches,
+ * plus the backends that implement it:
+ * - `memory` (default): the in-process `LRUCache`. Lost on restart / cold start.
+ * - `file`: an `LRUCache` persisted to a JSON file per cache, for single-node deploys.
+ * - `redis`: any Redis-protocol server (see `redisStore.ts`), shared across instances.
+ *
+ * The backend is chosen by `CACHE_BACKEND` when a cache is first used — not at
+ * import time, since dotenv loads after the routes module is imported.
+ */
+
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { CacheSetOptions, CacheStats, LRUCache } from './lruCache';
+import { RedisStore } from './redisStore';
+
+export type CacheBackend = 'memory' | 'file' | 'redis';
+
+/** A stored value plus the metadata routes need for `cacheAge` and staleness. */
+export interface CacheRecord<T> {
+	value: T;
+	/** When the value was stored (ms since epoch) */
+	lastUpdated: number;
+	/** TTL the entry was stored with */
+	ttlMs: number;
+	/** Times the entry has been read (0 where the backend doesn't track it) */
+	hits: number;
+	/** Past the TTL but within the stale window */
+	stale: boolean;
+}
+
+export interface CacheStore<T> {
+	/** Which backend holds the entries */
+	readonly backend: CacheBackend;
+	/** Reads an entry within its TTL, counting a hit or miss where the backend tracks them. */
+	get(key: string): Promise<T | null>;
+	/**
+	 * Reads an entry without counting a hit/miss.
+	 * @param allowStale - Also return entries past their TTL but within the stale window
+	 */
+	peek(key: string, allowStale?: boolean): Promise<CacheRecord<T> | null>;
+	/** @param options - Per-entry TTL override */
+	set(key: string, value: T, options?: CacheSetOptions): Promise<void>;
+	/** @returns True if the entry existed */
+	delete(key: string): Promise<boolean>;
+	/** @returns The number of entries removed */
+	clear(): Promise<number>;
+	/** @returns The number of expired entries purged */
+	evictExpired(): Promise<number>;
+	stats(): Promise<CacheStats>;
+	/** Writes pending changes to the backend, e.g. before the process exits */
+	close(): Promise<void>;
+}
+
+export interface CacheStoreOptions {
+	/** Maximum number of entries (advisory for `redis`, which evicts on its own) */
+	capacity: number;
+	/** Default time-to-live in milliseconds */
+	ttlMs: number;
+	/** How long past the TTL entries stay readable with `allowStale` */
+	staleMs?: number;
+	/** Budget for the estimated size of all entries (ignored by `redis`) */
+	maxBytes?: number;
+}
+
+// ─── Memory ───────────────────────────────────────────────────────────────────
+
+/**
+ * Async adapter over the in-process `LRUCache`.
+ */
+export class MemoryStore<T> implements CacheStore<T> {
+	readonly backend: CacheBackend = 'memory';
+	protected readonly lru: LRUCache<T>;
+
+	/**
+	 * @param options - Capacity, TTL, stale window and byte budget
+	 */
+	constructor(options: CacheStoreOptions) {
+		this.lru = new LRUCache<T>(options.capacity, options.ttlMs, options.staleMs ?? 0, options.maxBytes);
+	}
+
+	async get(key: string): Promise<T | null> {
+		return this.lru.get(key);
+	}
+
+	async peek(key: string, allowStale = false): Promise<CacheRecord<T> | null> {
+		return this.lru.peek(key, allowStale);
+	}
+
+	async set(key: string, value: T, options?: CacheSetOptions): Promise<void> {
+		this.lru.set(key, value, options);
+	}
+
+	async delete(key: string): Promise<boolean> {
+		return this.lru.delete(key);
+	}
+
+	async clear(): Promise<number> {
+		return this.lru.clear();
+	}
+
+	async evictExpired(): Promise<number> {
+		return this.lru.evictExpired();
+	}
+
+	async stats(): Promise<CacheStats> {
+		return this.lru.stats();
+	}
+
+	/** Nothing outlives the process. */
+	async close(): Promise<void> { }
+}
+
+// ─── File ─────────────────────────────────────────────────────────────────────
+
+/** Delay before writing changes to disk, so bursts of sets become one write. */
+const FILE_FLUSH_DELAY_MS = 1000;
+
+interface CacheFile<T> {
+	version: 1;
+	/** `ttlMs` is absent in files written before per-entry TTLs */
+	entries: Array<{ key: string; value: T; lastUpdated: number; ttlMs?: number }>;
+}
+
+/**
+ * `LRUCache` persisted to `<dir>/<name>.json`. The file is loaded on first use
+ * and rewritten (atomically, via a temp file) shortly after each change.
+ */
+export class FileStore<T> extends MemoryStore<T> {
+	override readonly backend: CacheBackend = 'file';
+	private readonly file: string;
+	private loading: Promise<void> | null = null;
+	private flushTimer: NodeJS.Timeout | null = null;
+	private writing: Promise<void> = Promise.resolve();
+
+	/**
+	 * @param dir - Directory holding the cache files (created if missing)
+	 * @param name - Cache name, used as the file name
+	 * @param options - Capacity, TTL, stale window and byte budget
+	 */
+	constructor(private readonly dir: string, name: string, options: CacheStoreOptions) {
+		super(options);
+		this.file = join(dir, `${name}.json`);
+	}
+
+	override async get(key: string): Promise<T | null> {
+		await this.load();
+		return super.get(key);
+	}
+
+	override async peek(key: string, allowStale = false): Promise<CacheRecord<T> | null> {
+		await this.load();
+		return super.peek(key, allowStale);
+	}
+
+	override async set(key: string, value: T, options?: CacheSetOptions): Promise<void> {
+		await this.load();
+		await super.set(key, value, options);
+		this.scheduleFlush();
+	}
+
+	override async delete(key: string): Promise<boolean> {
+		await this.load();
+		const deleted = await super.delete(key);
+		if (deleted) this.scheduleFlush();
+		return deleted;
+	}
+
+	override async clear(): Promise<number> {
+		await this.load();
+		const count = await super.clear();
+		this.scheduleFlush();
+		return count;
+	}
+
+	override async evictExpired(): Promise<number> {
+		await this.load();
+		const count = await super.evictExpired();
+		if (count > 0) this.scheduleFlush();
+		return count;
+	}
+
+	override async stats(): Promise<CacheStats> {
+		await this.load();
+		return super.stats();
+	}
+
+	/**
+	 * Writes changes still waiting on the flush delay, and waits for a write in progress.
+	 */
+	override async close(): Promise<void> {
+		if (this.flushTimer) {
+			clearTimeout(this.flushTimer);
+			this.flushTimer = null;
+			await this.write();
+		}
+		await this.writing;
+	}
+
+	/**
+	 * Reads the cache file once. A missing or unreadable file starts an empty cache.
+	 */
+	private load(): Promise<void> {
+		this.loading ??= (async () => {
+			try {
+				const data = JSON.parse(await readFile(this.file, 'utf8')) as CacheFile<T>;
+				// Entries are stored most-recent first; restore oldest first to keep LRU order
+				for (const entry of [...data.entries].reverse()) {
+					this.lru.restore(entry.key, entry.value, entry.lastUpdated, { ttlMs: entry.ttlMs });
+				}
+				this.lru.evictExpired();
+				console.log(`[cache] loaded ${data.entries.length} entries from ${this.file}`);
+			} catch (err) {
+				if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+					console.warn(`[cache] could not read ${this.file}, starting empty:`, err);
+				}
+			}
+		})();
+		return this.loading;
+	}
+
+	private scheduleFlush(): void {
+		if (this.flushTimer) return;
+		this.flushTimer = setTimeout(() => {
+			this.flushTimer = null;
+			this.write().catch(err => console.error(`[cache] could not write ${this.file}:`, err));
+		}, FILE_FLUSH_DELAY_MS);
+		this.flushTimer.unref();
+	}
+
+	/**
+	 * Queues a flush behind the one in progress, so two never share the temp file.
+	 */
+	private write(): Promise<void> {
+		this.writing = this.writing.catch(() => undefined).then(() => this.flush());
+		return this.writing;
+	}
+
+	/**
+	 * Writes every live entry to disk via a temp file and rename.
+	 */
+	private async flush(): Promise<void> {
+		const data: CacheFile<T> = { version: 1, entries: this.lru.entries() };
+		await mkdir(this.dir, { recursive: true });
+		const tmp = `${this.file}.${process.pid}.tmp`;
+		await writeFile(tmp, JSON.stringify(data));
+		await rename(tmp, this.file);
+	}
+}
+
+// ─── Factory ──────────────────────────────────────────────────────────────────
+
+/**
+ * Reads `CACHE_BACKEND`, falling back to `memory` for unknown values.
+ */
+function configuredBackend(): CacheBackend {
+	const value = process.env.CACHE_BACKEND?.trim().toLowerCase() || 'memory';
+	if (value === 'memory' || value === 'file' || value === 'redis') return value;
+	console.warn(`[cache] unknown CACHE_BACKEND "${value}" — using memory`);
+	return 'memory';
+}
+
+/** Stores created by `createCacheStore` that have been used, for `closeCacheStores`. */
+const openStores = new Set<CacheStore<unknown>>();
+
+/**
+ * Builds the store for the configured backend.
+ */
+function buildStore<T>(name: string, options: CacheStoreOptions): CacheStore<T> {
+	const backend = configuredBackend();
+	let store: CacheStore<T>;
+	if (backend === 'file') {
+		store = new FileStore<T>(process.env.CACHE_DIR?.trim() || '.cache', name, options);
+	} else if (backend === 'redis') {
+		store = new RedisStore<T>(process.env.REDIS_URL?.trim() || 'redis://127.0.0.1:6379', name, options);
+	} else {
+		store = new MemoryStore<T>(options);
+	}
+	openStores.add(store);
+	return store;
+}
+
+/**
+ * Creates a named cache on the configured backend. The backend is resolved on
+ * first use so environment variables loaded after import still apply.
+ *
+ * @param name - Cache name (file name / Redis key namespace)
+ * @param options - Capacity, default TTL, stale window and byte budget
+ * @returns A store that delegates to the configured backend
+ */
+export function createCacheStore<T>(name: string, options: CacheStoreOptions): CacheStore<T> {
+	let store: CacheStore<T> | null = null;
+	const resolve = () => (store ??= buildStore<T>(name, options));
+
+	return {
+		get backend() { return resolve().backend; },
+		get: key => resolve().get(key),
+		peek: (key, allowStale) => resolve().peek(key, allowStale),
+		set: (key, value, setOptions) => resolve().set(key, value, setOptions),
+		delete: key => resolve().delete(key),
+		clear: () => resolve().clear(),
+		evictExpired: () => resolve().evictExpired(),
+		stats: () => resolve().stats(),
+		close: () => store?.close() ?? Promise.resolve(),
+	};
+}
+
+/**
+ * Writes pending changes of every cache created by `createCacheStore`. The
+ * server calls this on shutdown, so the `file` backend keeps its last writes.
+ *
+ * @returns Resolves once every store is closed; rejects if one fails
+ */
+export async function closeCacheStores(): Promise<void> {
+	await Promise.all([...openStores].map(store => store.close()));
+}
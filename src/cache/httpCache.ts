@@ -0,0 +1,84 @@
+/**
+ * HTTP Caching Helpers
+ *
+ * Lets browsers and CDNs cache our responses: a strong `ETag` derived from the
+ * cached payload, `Last-Modified` from when it was fetched, and `Cache-Control`
+ * whose `max-age` is whatever is left of the server-side TTL. Conditional
+ * requests (`If-None-Match` / `If-Modified-Since`) are answered with `304`.
+ *
+ * Everything goes through plain Express request/response headers, so the local
+ * server and the Netlify function behave identically.
+ */
+
+import { createHash } from 'crypto';
+import { Request, Response } from 'express';
+
+/** How long a payload stays valid, relative to when it was fetched upstream. */
+export interface Freshness {
+	/** When the payload was fetched from GitHub (ms since epoch) */
+	lastUpdated: number;
+	/** TTL of the server-side cache holding the payload */
+	ttlMs: number;
+	/** How long past the TTL a shared cache may serve it while revalidating */
+	staleMs: number;
+}
+
+/**
+ * Builds a strong ETag from a payload. Strings (rendered SVGs) are hashed as-is,
+ * anything else as JSON, so identical data refetched later keeps its ETag.
+ *
+ * @param payload - The cached value, without per-request fields like `cacheAge`
+ * @returns Quoted ETag value
+ */
+export function payloadETag(payload: unknown): string {
+	const text = typeof payload === 'string' ? payload : JSON.stringify(payload) ?? '';
+	return `"${createHash('sha1').update(text).digest('base64url')}"`;
+}
+
+/**
+ * Formats the `Cache-Control` value for a payload.
+ *
+ * @param freshness - When the payload was fetched and how long it lives
+ * @returns e.g. `public, max-age=1800, stale-while-revalidate=21600`
+ */
+export function cacheControl(freshness: Freshness): string {
+	const remaining = freshness.lastUpdated + freshness.ttlMs - Date.now();
+	const maxAge = Math.max(0, Math.floor(remaining / 1000));
+	// Once past the TTL, only what's left of the stale window may still be used
+	const staleLeft = Math.min(freshness.staleMs, remaining + freshness.staleMs);
+	return `public, max-age=${maxAge}, stale-while-revalidate=${Math.max(0, Math.floor(staleLeft / 1000))}`;
+}
+
+/**
+ * Sets `ETag`, `Last-Modified` and `Cache-Control` for a cacheable payload and
+ * reports whether the client's copy is still current. Callers should end the
+ * response with `304` (no body) when this returns true.
+ *
+ * @param req - Express request (conditional headers are read from it)
+ * @param res - Express response (headers are written to it)
+ * @param payload - Value the ETag is derived from
+ * @param freshness - When the payload was fetched and how long it lives
+ * @returns True if the client sent a matching `If-None-Match` / `If-Modified-Since`
+ */
+export function applyCacheHeaders(req: Request, res: Response, payload: unknown, freshness: Freshness): boolean {
+	res.setHeader('ETag', payloadETag(payload));
+	res.setHeader('Last-Modified', new Date(freshness.lastUpdated).toUTCString());
+	res.setHeader('Cache-Control', cacheControl(freshness));
+	return req.fresh;
+}
+
+/**
+ * Sends a JSON payload with caching headers, or `304 Not Modified` if the client
+ * already has it.
+ *
+ * @param req - Express request
+ * @param res - Express response
+ * @param payload - Cached value the ETag is derived from
+ * @param body - What to send on a full response (usually `payload` plus `cacheAge`)
+ * @param freshness - When the payload was fetched and how long it lives
+ * @returns The Express response
+ */
+export function sendCachedJson(req: Request, res: Response, payload: unknown, body: unknown, freshness: Freshness): Response {
+	if (applyCacheHeaders(req, res, payload, freshness)) return res.status(304).end();
+	return res.json(body);
+}
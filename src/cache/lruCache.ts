@@ -5,8 +5,11 @@
  * to achieve O(1) time complexity for GET, SET, and DELETE operations.
  * 
  * Key Features:
- * - TTL Support: Time-to-live based entry eviction.
- * - Capacity Management: Automatic least-recently-used eviction on overflow.
+ * - TTL Support: Time-to-live based entry eviction, overridable per entry.
+ * - Stale Retention: Optionally keeps expired entries for a grace period so
+ *   callers can revalidate them (e.g. conditional requests) instead of refetching.
+ * - Capacity Management: Automatic least-recently-used eviction on overflow,
+ *   by entry count and optionally by estimated size in bytes.
  * - Performance Metrics: Integrated tracking for hit-rate, misses, and evictions.
  * - Type Safety: Fully generic implementation supporting any data type.
  */
@@ -15,6 +18,10 @@ interface Node<T> {
 	key: string;
 	value: T;
 	lastUpdated: number;
+	/** TTL of this entry (the cache default unless set per entry) */
+	ttlMs: number;
+	/** Estimated size in bytes, see `estimateSize` */
+	size: number;
 	hits: number;
 	prev: Node<T> | null;
 	next: Node<T> | null;
@@ -23,12 +30,35 @@ interface Node<T> {
 export interface CacheStats {
 	size: number;
 	capacity: number;
+	/** Estimated bytes held by the entries */
+	bytes: number;
+	/** Byte budget, when one is configured */
+	maxBytes?: number;
 	hits: number;
 	misses: number;
 	evictions: number;
 	keys: string[];
 }
 
+export interface CacheSetOptions {
+	/** Time-to-live for this entry, overriding the cache default */
+	ttlMs?: number;
+}
+
+/**
+ * Estimates how many bytes an entry takes: its key plus the UTF-8 length of the
+ * value (strings as-is, anything else as JSON). Good enough to budget memory
+ * without walking object graphs.
+ * 
+ * @param key - The cache key
+ * @param value - The cached value
+ * @returns Approximate size in bytes
+ */
+export function estimateSize(key: string, value: unknown): number {
+	const text = typeof value === 'string' ? value : JSON.stringify(value) ?? '';
+	return Buffer.byteLength(key) + Buffer.byteLength(text);
+}
+
 export class LRUCache<T = unknown> {
 	private map = new Map<string, Node<T>>();
 	private head: Node<T> | null = null; // most recently used
@@ -36,16 +66,21 @@ export class LRUCache<T = unknown> {
 	private hits = 0;
 	private misses = 0;
 	private evictions = 0;
+	private bytes = 0;
 
 	/**
 	 * Creates a new LRUCache instance.
 	 * 
 	 * @param capacity - Maximum number of items the cache can hold
-	 * @param ttlMs - Time-to-live for cache entries in milliseconds
+	 * @param ttlMs - Default time-to-live for cache entries in milliseconds
+	 * @param staleMs - How long past its TTL an entry is retained for `peek(key, true)`
+	 * @param maxBytes - Optional budget for the estimated size of all entries
 	 */
 	constructor(
 		private readonly capacity: number,
-		private readonly ttlMs: number
+		private readonly ttlMs: number,
+		private readonly staleMs = 0,
+		private readonly maxBytes?: number
 	) { }
 
 	/**
@@ -59,9 +94,10 @@ export class LRUCache<T = unknown> {
 		const node = this.map.get(key);
 		if (!node) { this.misses++; return null; }
 
-		// TTL check
-		if (Date.now() - node.lastUpdated > this.ttlMs) {
-			this.delete(key);
+		// TTL check — keep the node around while it may still be revalidated
+		const age = Date.now() - node.lastUpdated;
+		if (age > node.ttlMs) {
+			if (age > node.ttlMs + this.staleMs) this.delete(key);
 			this.misses++;
 			return null;
 		}
@@ -76,40 +112,55 @@ export class LRUCache<T = unknown> {
 	 * Returns the raw node data for metadata (cacheAge etc.) without counting a hit/miss.
 	 * 
 	 * @param key - The cache key to look up
-	 * @returns Metadata object or null if not found/expired
+	 * @param allowStale - Also return entries past their TTL but within the stale window
+	 * @returns Metadata object (with `stale` set once past the TTL) or null if not found/expired
 	 */
-	peek(key: string): { value: T; lastUpdated: number; hits: number } | null {
+	peek(key: string, allowStale = false): { value: T; lastUpdated: number; ttlMs: number; hits: number; stale: boolean } | null {
 		const node = this.map.get(key);
 		if (!node) return null;
-		if (Date.now() - node.lastUpdated > this.ttlMs) { this.delete(key); return null; }
-		return { value: node.value, lastUpdated: node.lastUpdated, hits: node.hits };
+		const age = Date.now() - node.lastUpdated;
+		if (age > node.ttlMs + this.staleMs) { this.delete(key); return null; }
+		const stale = age > node.ttlMs;
+		if (stale && !allowStale) return null;
+		return { value: node.value, lastUpdated: node.lastUpdated, ttlMs: node.ttlMs, hits: node.hits, stale };
 	}
 
 	/**
 	 * Sets or updates a value in the cache. 
-	 * Moves the item to the front and handles eviction if capacity is reached.
+	 * Moves the item to the front and evicts least recently used entries while
+	 * the entry count or byte budget is exceeded. A value larger than the whole
+	 * byte budget is not stored (and replaces nothing).
 	 * 
 	 * @param key - The cache key
 	 * @param value - The value to store
+	 * @param options - Per-entry TTL override
 	 */
-	set(key: string, value: T): void {
-		if (this.map.has(key)) {
-			const node = this.map.get(key);
-			if (node) {
-				node.value = value;
-				node.lastUpdated = Date.now();
-				this.moveToFront(node);
-			}
+	set(key: string, value: T, options: CacheSetOptions = {}): void {
+		const size = estimateSize(key, value);
+		const ttlMs = options.ttlMs ?? this.ttlMs;
+		if (this.maxBytes !== undefined && size > this.maxBytes) {
+			this.delete(key);
 			return;
 		}
 
-		const node: Node<T> = { key, value, lastUpdated: Date.now(), hits: 0, prev: null, next: this.head };
-		this.map.set(key, node);
-		if (this.head) this.head.prev = node;
-		this.head = node;
-		if (!this.tail) this.tail = node;
+		const existing = this.map.get(key);
+		if (existing) {
+			this.bytes += size - existing.size;
+			existing.value = value;
+			existing.size = size;
+			existing.ttlMs = ttlMs;
+			existing.lastUpdated = Date.now();
+			this.moveToFront(existing);
+		} else {
+			const node: Node<T> = { key, value, lastUpdated: Date.now(), ttlMs, size, hits: 0, prev: null, next: this.head };
+			this.map.set(key, node);
+			this.bytes += size;
+			if (this.head) this.head.prev = node;
+			this.head = node;
+			if (!this.tail) this.tail = node;
+		}
 
-		if (this.map.size > this.capacity) {
+		while (this.map.size > this.capacity || (this.maxBytes !== undefined && this.bytes > this.maxBytes)) {
 			this.evictLRU();
 		}
 	}
@@ -125,6 +176,7 @@ export class LRUCache<T = unknown> {
 		if (!node) return false;
 		this.removeNode(node);
 		this.map.delete(key);
+		this.bytes -= node.size;
 		return true;
 	}
 
@@ -138,6 +190,7 @@ export class LRUCache<T = unknown> {
 		this.map.clear();
 		this.head = null;
 		this.tail = null;
+		this.bytes = 0;
 		return size;
 	}
 
@@ -150,6 +203,8 @@ export class LRUCache<T = unknown> {
 		return {
 			size: this.map.size,
 			capacity: this.capacity,
+			bytes: this.bytes,
+			...(this.maxBytes !== undefined && { maxBytes: this.maxBytes }),
 			hits: this.hits,
 			misses: this.misses,
 			evictions: this.evictions,
@@ -157,8 +212,38 @@ export class LRUCache<T = unknown> {
 		};
 	}
 
+	/**
+	 * Lists live entries from most to least recently used, for persisting the cache.
+	 * 
+	 * @returns Key, value, fetch time and TTL of every entry within its TTL plus stale window
+	 */
+	entries(): Array<{ key: string; value: T; lastUpdated: number; ttlMs: number }> {
+		const now = Date.now();
+		const out: Array<{ key: string; value: T; lastUpdated: number; ttlMs: number }> = [];
+		for (let node = this.head; node; node = node.next) {
+			if (now - node.lastUpdated <= node.ttlMs + this.staleMs) {
+				out.push({ key: node.key, value: node.value, lastUpdated: node.lastUpdated, ttlMs: node.ttlMs });
+			}
+		}
+		return out;
+	}
+
+	/**
+	 * Re-inserts a persisted entry as most recently used, keeping its original fetch time.
+	 * 
+	 * @param key - The cache key
+	 * @param value - The value to store
+	 * @param lastUpdated - When the value was originally fetched (ms since epoch)
+	 * @param options - Per-entry TTL override the entry was stored with
+	 */
+	restore(key: string, value: T, lastUpdated: number, options: CacheSetOptions = {}): void {
+		this.set(key, value, options);
+		const node = this.map.get(key);
+		if (node) node.lastUpdated = lastUpdated;
+	}
+
 	/** 
-	 * Purge all expired entries proactively.
+	 * Purge all expired entries (past TTL plus stale window) proactively.
 	 * This is typically called periodically via a background timer.
 	 * 
 	 * @returns The number of entries that were evicted
@@ -167,9 +252,10 @@ export class LRUCache<T = unknown> {
 		const now = Date.now();
 		let count = 0;
 		for (const [key, node] of this.map) {
-			if (now - node.lastUpdated > this.ttlMs) {
+			if (now - node.lastUpdated > node.ttlMs + this.staleMs) {
 				this.removeNode(node);
 				this.map.delete(key);
+				this.bytes -= node.size;
 				count++;
 			}
 		}
@@ -182,6 +268,7 @@ export class LRUCache<T = unknown> {
 	private evictLRU(): void {
 		if (!this.tail) return;
 		this.map.delete(this.tail.key);
+		this.bytes -= this.tail.size;
 		this.removeNode(this.tail);
 		this.evictions++;
 	}
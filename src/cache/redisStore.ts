@@ -0,0 +1,321 @@
+/**
+ * Redis-Protocol Cache Store
+ *
+ * Keeps cache entries in any server that speaks RESP (Redis, Valkey, KeyDB, …)
+ * through a minimal built-in client, so no driver dependency is needed.
+ *
+ * - Keys: `<REDIS_KEY_PREFIX><cache name>:<key>`, values are JSON `{ value, lastUpdated }`.
+ * - Expiry: written with `PX` = entry TTL + stale window, so the server drops dead entries.
+ * - Capacity: left to the server's `maxmemory-policy` (e.g. `allkeys-lru`);
+ *   `maxBytes` is not enforced, but `stats()` estimates the bytes stored.
+ * - Failures: connection and command errors are logged and treated as cache
+ *   misses, so an unreachable server degrades to uncached behavior.
+ */
+
+import { connect as netConnect, Socket } from 'net';
+import { connect as tlsConnect } from 'tls';
+import { CacheBackend, CacheRecord, CacheStore, CacheStoreOptions } from './cacheStore';
+import { CacheSetOptions, CacheStats } from './lruCache';
+
+export type RespValue = string | number | null | RespValue[];
+
+/** A command with no reply for this long fails and drops the connection. */
+const COMMAND_TIMEOUT_MS = 2000;
+
+/** Keys per `SCAN` / `DEL` round-trip. */
+const KEY_BATCH_SIZE = 100;
+
+/** Entries whose size `stats()` reads; the bytes of the rest are extrapolated. */
+const STATS_SAMPLE_SIZE = 100;
+
+// ─── RESP client ──────────────────────────────────────────────────────────────
+
+/**
+ * Serializes a command as a RESP array of bulk strings.
+ */
+function encodeCommand(args: Array<string | number>): string {
+	let out = `*${args.length}\r\n`;
+	for (const arg of args) {
+		const text = String(arg);
+		out += `$${Buffer.byteLength(text)}\r\n${text}\r\n`;
+	}
+	return out;
+}
+
+/**
+ * Parses one RESP reply starting at `start`.
+ *
+ * @returns The reply (server errors as `Error`) and where it ends, or null if incomplete
+ * @throws {Error} On a reply type the client doesn't understand
+ */
+function parseReply(buf: Buffer, start: number): { value: RespValue | Error; end: number } | null {
+	const lineEnd = buf.indexOf('\r\n', start);
+	if (lineEnd < 0) return null;
+	const line = buf.toString('utf8', start + 1, lineEnd);
+	const next = lineEnd + 2;
+
+	switch (String.fromCharCode(buf[start] ?? 0)) {
+		case '+': return { value: line, end: next };
+		case '-': return { value: new Error(line), end: next };
+		case ':': return { value: Number(line), end: next };
+		case '$': {
+			const length = Number(line);
+			if (length < 0) return { value: null, end: next };
+			if (buf.length < next + length + 2) return null;
+			return { value: buf.toString('utf8', next, next + length), end: next + length + 2 };
+		}
+		case '*': {
+			const count = Number(line);
+			if (count < 0) return { value: null, end: next };
+			const items: RespValue[] = [];
+			let pos = next;
+			for (let i = 0; i < count; i++) {
+				const item = parseReply(buf, pos);
+				if (!item) return null;
+				items.push(item.value instanceof Error ? item.value.message : item.value);
+				pos = item.end;
+			}
+			return { value: items, end: pos };
+		}
+		default:
+			throw new Error(`Unexpected Redis reply: ${line.slice(0, 40)}`);
+	}
+}
+
+/**
+ * Pipelined RESP connection. Connects lazily, reconnects on the next command
+ * after a failure, and never keeps the process alive on its own.
+ */
+export class RespClient {
+	private socket: Socket | null = null;
+	private buffer = Buffer.alloc(0);
+	private pending: Array<{ resolve: (value: RespValue) => void; reject: (err: Error) => void }> = [];
+
+	constructor(private readonly url: URL) { }
+
+	/**
+	 * Sends a command and resolves with its reply.
+	 *
+	 * @param args - Command name and arguments
+	 * @returns The parsed reply
+	 * @throws {Error} On server errors, timeouts or connection failures
+	 */
+	command(...args: Array<string | number>): Promise<RespValue> {
+		const socket = this.socket ?? this.connect();
+		return new Promise((resolve, reject) => {
+			this.pending.push({ resolve, reject });
+			socket.write(encodeCommand(args));
+		});
+	}
+
+	private connect(): Socket {
+		const host = this.url.hostname || '127.0.0.1';
+		const port = Number(this.url.port) || 6379;
+		const socket = this.url.protocol === 'rediss:'
+			? tlsConnect({ host, port, servername: host })
+			: netConnect({ host, port });
+
+		this.socket = socket;
+		this.buffer = Buffer.alloc(0);
+		socket.setNoDelay(true);
+		socket.setTimeout(COMMAND_TIMEOUT_MS);
+		socket.unref();
+
+		socket.on('data', (chunk: Buffer) => this.onData(chunk));
+		socket.on('timeout', () => {
+			if (this.pending.length > 0) socket.destroy(new Error('Redis command timed out'));
+		});
+		socket.on('error', err => this.failAll(err));
+		socket.on('close', () => {
+			if (this.socket === socket) this.socket = null;
+			this.failAll(new Error('Redis connection closed'));
+		});
+
+		// AUTH / SELECT are queued ahead of the first command on every new connection
+		const username = decodeURIComponent(this.url.username);
+		const password = decodeURIComponent(this.url.password);
+		const db = this.url.pathname.slice(1);
+		if (password) this.sendSetup(socket, username ? ['AUTH', username, password] : ['AUTH', password]);
+		if (db) this.sendSetup(socket, ['SELECT', db]);
+
+		return socket;
+	}
+
+	private sendSetup(socket: Socket, args: string[]): void {
+		this.pending.push({
+			resolve: () => { },
+			reject: err => console.error(`[redis] ${args[0]} failed: ${err.message}`),
+		});
+		socket.write(encodeCommand(args));
+	}
+
+	private onData(chunk: Buffer): void {
+		this.buffer = Buffer.concat([this.buffer, chunk]);
+		try {
+			for (;;) {
+				const reply = parseReply(this.buffer, 0);
+				if (!reply) break;
+				this.buffer = this.buffer.subarray(reply.end);
+				const waiter = this.pending.shift();
+				if (reply.value instanceof Error) waiter?.reject(reply.value);
+				else waiter?.resolve(reply.value);
+			}
+		} catch (err) {
+			// Out of sync with the server — start over on a fresh connection
+			this.socket?.destroy(err instanceof Error ? err : new Error(String(err)));
+		}
+	}
+
+	private failAll(err: Error): void {
+		const waiters = this.pending;
+		this.pending = [];
+		for (const waiter of waiters) waiter.reject(err);
+	}
+}
+
+/** One connection per server URL, shared by every cache (and rate limiter) using it. */
+const clients = new Map<string, RespClient>();
+
+/**
+ * Returns the shared client for a server URL.
+ *
+ * @param url - `redis://` or `rediss://` URL
+ * @returns The client, connected on its first command
+ */
+export function redisClient(url: string): RespClient {
+	let client = clients.get(url);
+	if (!client) {
+		client = new RespClient(new URL(url));
+		clients.set(url, client);
+	}
+	return client;
+}
+
+// ─── Store ────────────────────────────────────────────────────────────────────
+
+interface StoredEntry<T> {
+	value: T;
+	lastUpdated: number;
+	/** Absent in entries written before per-entry TTLs */
+	ttlMs?: number;
+}
+
+export class RedisStore<T> implements CacheStore<T> {
+	readonly backend: CacheBackend = 'redis';
+	private readonly client: RespClient;
+	private readonly prefix: string;
+
+	/**
+	 * @param url - `redis://[user:password@]host:port[/db]` (or `rediss://` for TLS)
+	 * @param name - Cache name, used as the key namespace
+	 * @param options - Capacity (reported only), TTL and stale window
+	 */
+	constructor(url: string, name: string, private readonly options: CacheStoreOptions) {
+		this.client = redisClient(url);
+		this.prefix = `${process.env.REDIS_KEY_PREFIX ?? 'gh-api:'}${name}:`;
+	}
+
+	async get(key: string): Promise<T | null> {
+		return (await this.peek(key))?.value ?? null;
+	}
+
+	async peek(key: string, allowStale = false): Promise<CacheRecord<T> | null> {
+		try {
+			const raw = await this.client.command('GET', this.prefix + key);
+			if (typeof raw !== 'string') return null;
+			const { value, lastUpdated, ttlMs = this.options.ttlMs } = JSON.parse(raw) as StoredEntry<T>;
+			const stale = Date.now() - lastUpdated > ttlMs;
+			if (stale && !allowStale) return null;
+			return { value, lastUpdated, ttlMs, hits: 0, stale };
+		} catch (err) {
+			this.warn('GET', err);
+			return null;
+		}
+	}
+
+	async set(key: string, value: T, options: CacheSetOptions = {}): Promise<void> {
+		const ttlMs = options.ttlMs ?? this.options.ttlMs;
+		const entry: StoredEntry<T> = { value, lastUpdated: Date.now(), ttlMs };
+		const expiry = ttlMs + (this.options.staleMs ?? 0);
+		try {
+			await this.client.command('SET', this.prefix + key, JSON.stringify(entry), 'PX', expiry);
+		} catch (err) {
+			this.warn('SET', err);
+		}
+	}
+
+	async delete(key: string): Promise<boolean> {
+		try {
+			return await this.client.command('DEL', this.prefix + key) === 1;
+		} catch (err) {
+			this.warn('DEL', err);
+			return false;
+		}
+	}
+
+	async clear(): Promise<number> {
+		try {
+			const keys = await this.keys();
+			let count = 0;
+			for (let i = 0; i < keys.length; i += KEY_BATCH_SIZE) {
+				const batch = keys.slice(i, i + KEY_BATCH_SIZE).map(k => this.prefix + k);
+				const deleted = await this.client.command('DEL', ...batch);
+				count += typeof deleted === 'number' ? deleted : 0;
+			}
+			return count;
+		} catch (err) {
+			this.warn('clear', err);
+			return 0;
+		}
+	}
+
+	/** Entries expire server-side via `PX`; nothing to sweep. */
+	async evictExpired(): Promise<number> {
+		return 0;
+	}
+
+	async stats(): Promise<CacheStats> {
+		let keys: string[] = [];
+		let bytes = 0;
+		try {
+			keys = await this.keys();
+			// Sizes of a sample only (pipelined), so a status check stays cheap however many keys there are
+			const sample = keys.slice(0, STATS_SAMPLE_SIZE);
+			const lengths = await Promise.all(sample.map(k => this.client.command('STRLEN', this.prefix + k)));
+			sample.forEach((key, i) => {
+				const length = lengths[i];
+				bytes += Buffer.byteLength(key) + (typeof length === 'number' ? length : 0);
+			});
+			if (sample.length > 0) bytes = Math.round(bytes * keys.length / sample.length);
+		} catch (err) {
+			this.warn('stats', err);
+		}
+		return { size: keys.length, capacity: this.options.capacity, bytes, hits: 0, misses: 0, evictions: 0, keys };
+	}
+
+	/** Every write is sent as it happens, and the shared connection never holds the process open. */
+	async close(): Promise<void> { }
+
+	/**
+	 * Lists this cache's keys (without the prefix) using incremental `SCAN`.
+	 */
+	private async keys(): Promise<string[]> {
+		const pattern = `${this.prefix.replace(/[*?[\]\\]/g, '\\$&')}*`;
+		const keys: string[] = [];
+		let cursor = '0';
+		do {
+			const reply = await this.client.command('SCAN', cursor, 'MATCH', pattern, 'COUNT', KEY_BATCH_SIZE);
+			if (!Array.isArray(reply)) throw new Error('Unexpected SCAN reply');
+			const [next, batch] = reply;
+			cursor = String(next);
+			if (Array.isArray(batch)) {
+				for (const key of batch) if (typeof key === 'string') keys.push(key.slice(this.prefix.length));
+			}
+		} while (cursor !== '0');
+		return keys;
+	}
+
+	private warn(operation: string, err: unknown): void {
+		console.warn(`[redis] ${operation} failed: ${err instanceof Error ? err.message : String(err)}`);
+	}
+}
@@ -0,0 +1,65 @@
+/**
+ * Single-Flight Request Coalescing
+ *
+ * Ensures that concurrent callers asking for the same key share one in-flight
+ * promise instead of each starting their own upstream fetch. Once the promise
+ * settles the key is released, so the next caller starts a new flight.
+ *
+ * Key Features:
+ * - Shared Outcome: Every joined caller receives the same value or rejection.
+ * - Metrics: Counts flights started and callers coalesced onto an existing one.
+ */
+
+export interface SingleFlightStats {
+	/** Keys with a flight currently in progress */
+	inFlight: number;
+	/** Flights started (one upstream call each) */
+	flights: number;
+	/** Calls that joined an existing flight instead of starting one */
+	coalesced: number;
+}
+
+export class SingleFlight<T> {
+	private pending = new Map<string, Promise<T>>();
+	private flights = 0;
+	private coalesced = 0;
+
+	/**
+	 * Runs `fn` for a key, or joins the flight already running for it.
+	 *
+	 * @param key - Identity of the work (e.g. the cache key being filled)
+	 * @param fn - Starts the work; only called when no flight is in progress
+	 * @returns The shared result
+	 */
+	run(key: string, fn: () => Promise<T>): Promise<T> {
+		const existing = this.pending.get(key);
+		if (existing) {
+			this.coalesced++;
+			return existing;
+		}
+
+		this.flights++;
+		const flight = fn().finally(() => this.pending.delete(key));
+		this.pending.set(key, flight);
+		return flight;
+	}
+
+	/**
+	 * Checks whether a flight is in progress for a key.
+	 *
+	 * @param key - The key to check
+	 * @returns True if a call to `run` would join an existing flight
+	 */
+	has(key: string): boolean {
+		return this.pending.has(key);
+	}
+
+	/**
+	 * Generates coalescing metrics.
+	 *
+	 * @returns SingleFlightStats with in-flight, started and coalesced counts
+	 */
+	stats(): SingleFlightStats {
+		return { inFlight: this.pending.size, flights: this.flights, coalesced: this.coalesced };
+	}
+}
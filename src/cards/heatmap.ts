@@ -0,0 +1,184 @@
+/**
+ * Contribution Heatmap Renderer
+ *
+ * Draws a GitHub-style contribution graph from a `ContributionCalendar`:
+ * one column per week (Sunday-first), month labels along the top, weekday
+ * labels down the side and a "Less … More" legend underneath.
+ */
+
+import { ContributionCalendar } from '../types';
+import { escapeXml, svgDocument } from './svg';
+
+/** Palette for a heatmap: card colors plus one fill per contribution level (0–4). */
+export interface HeatmapScale {
+	bg: string;
+	text: string;
+	border: string;
+	levels: [string, string, string, string, string];
+}
+
+const DEFAULT_SCALE: HeatmapScale = {
+	bg: '#ffffff', text: '#57606a', border: '#d0d7de',
+	levels: ['#ebedf0', '#9be9a8', '#40c463', '#30a14e', '#216e39'],
+};
+
+export const HEATMAP_SCALES: Record<string, HeatmapScale> = {
+	github: DEFAULT_SCALE,
+	github_dark: {
+		bg: '#0d1117', text: '#8b949e', border: '#30363d',
+		levels: ['#161b22', '#0e4429', '#006d32', '#26a641', '#39d353'],
+	},
+	halloween: {
+		bg: '#ffffff', text: '#57606a', border: '#d0d7de',
+		levels: ['#ebedf0', '#ffee4a', '#ffc501', '#fe9600', '#03001c'],
+	},
+	blue: {
+		bg: '#ffffff', text: '#57606a', border: '#d0d7de',
+		levels: ['#ebedf0', '#c0ddf9', '#73b3f3', '#3886e1', '#17459e'],
+	},
+	purple: {
+		bg: '#ffffff', text: '#57606a', border: '#d0d7de',
+		levels: ['#ebedf0', '#d8c3f5', '#b08de8', '#8357c9', '#4f2a8f'],
+	},
+	dracula: {
+		bg: '#282a36', text: '#f8f8f2', border: '#44475a',
+		levels: ['#44475a', '#6272a4', '#bd93f9', '#ff79c6', '#50fa7b'],
+	},
+};
+
+/**
+ * Resolves a heatmap color scale by name; unknown names fall back to `github`.
+ *
+ * @param name - Scale name from the `scale` query param
+ * @returns The palette to draw with
+ */
+export function resolveHeatmapScale(name: string | undefined): HeatmapScale {
+	return (name && Object.prototype.hasOwnProperty.call(HEATMAP_SCALES, name) && HEATMAP_SCALES[name]) || DEFAULT_SCALE;
+}
+
+export interface HeatmapOptions {
+	/** Resolved palette */
+	scale: HeatmapScale;
+	/** Heading text, e.g. "1,234 contributions in 2023" */
+	title: string;
+	/** Drop the card border entirely */
+	hideBorder: boolean;
+	/** Drop the heading */
+	hideTitle: boolean;
+	/** Drop the "Less … More" legend */
+	hideLegend: boolean;
+}
+
+const CELL = 10;
+const GAP = 3;
+const STEP = CELL + GAP;
+const PADDING = 20;
+const LABEL_WIDTH = 30;
+const DAY_MS = 86400_000;
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const WEEKDAY_LABELS: Array<[number, string]> = [[1, 'Mon'], [3, 'Wed'], [5, 'Fri']];
+
+/**
+ * Builds the default heading for a calendar.
+ *
+ * @param calendar - The calendar being drawn
+ * @param year - Selected year, if the range was picked with `?year=`
+ * @returns e.g. "1,234 contributions in 2023"
+ */
+export function heatmapTitle(calendar: ContributionCalendar, year?: number): string {
+	const total = calendar.totalContributions.toLocaleString('en-US');
+	const noun = calendar.totalContributions === 1 ? 'contribution' : 'contributions';
+	if (year) return `${total} ${noun} in ${year}`;
+	return `${total} ${noun} from ${calendar.from} to ${calendar.to}`;
+}
+
+/**
+ * Renders the contribution heatmap SVG.
+ *
+ * @param calendar - Per-day contributions, oldest first
+ * @param options - Palette and visibility options parsed from the query
+ * @returns Complete SVG document
+ */
+export function renderHeatmap(calendar: ContributionCalendar, options: HeatmapOptions): string {
+	const { scale } = options;
+	const start = Date.parse(`${calendar.from}T00:00:00Z`);
+	const firstSunday = start - new Date(start).getUTCDay() * DAY_MS;
+
+	const titleHeight = options.hideTitle ? 0 : 30;
+	const gridTop = PADDING + titleHeight + 15;
+	const gridLeft = PADDING + LABEL_WIDTH;
+
+	const cells: string[] = [];
+	const monthLabels: Array<{ column: number; label: string }> = [];
+	let columns = 0;
+
+	for (const day of calendar.days) {
+		const time = Date.parse(`${day.date}T00:00:00Z`);
+		const column = Math.floor((time - firstSunday) / (7 * DAY_MS));
+		const row = new Date(time).getUTCDay();
+		columns = Math.max(columns, column + 1);
+
+		// Label each month at the column holding its first day (and the range start)
+		const date = new Date(time);
+		if (date.getUTCDate() === 1 || monthLabels.length === 0) {
+			monthLabels.push({ column, label: MONTHS[date.getUTCMonth()] ?? '' });
+		}
+
+		const x = gridLeft + column * STEP;
+		const y = gridTop + row * STEP;
+		const noun = day.count === 1 ? 'contribution' : 'contributions';
+		cells.push(
+			`<rect x="${x}" y="${y}" width="${CELL}" height="${CELL}" rx="2" fill="${scale.levels[day.level]}">` +
+			`<title>${day.count} ${noun} on ${day.date}</title></rect>`
+		);
+	}
+
+	// Drop a label that would collide with the next one (e.g. a range starting on the 28th)
+	const months = monthLabels
+		.filter((m, i) => {
+			const next = monthLabels[i + 1];
+			return !next || next.column - m.column >= 3;
+		})
+		.map(m => `<text x="${gridLeft + m.column * STEP}" y="${gridTop - 6}" class="label">${m.label}</text>`)
+		.join('');
+
+	const weekdays = WEEKDAY_LABELS
+		.map(([row, label]) => `<text x="${PADDING}" y="${gridTop + row * STEP + CELL - 1}" class="label">${label}</text>`)
+		.join('');
+
+	const gridBottom = gridTop + 7 * STEP - GAP;
+	const width = Math.max(gridLeft + columns * STEP - GAP + PADDING, 300);
+
+	let legend = '';
+	if (!options.hideLegend) {
+		const legendY = gridBottom + 12;
+		const legendRight = width - PADDING;
+		const boxesLeft = legendRight - 28 - 5 * STEP;
+		const boxes = scale.levels
+			.map((color, i) => `<rect x="${boxesLeft + i * STEP}" y="${legendY}" width="${CELL}" height="${CELL}" rx="2" fill="${color}"/>`)
+			.join('');
+		legend = `<text x="${boxesLeft - 6}" y="${legendY + CELL - 1}" text-anchor="end" class="label">Less</text>${boxes}` +
+			`<text x="${legendRight}" y="${legendY + CELL - 1}" text-anchor="end" class="label">More</text>`;
+	}
+
+	const height = gridBottom + (options.hideLegend ? 0 : 12 + CELL) + PADDING;
+
+	const header = options.hideTitle
+		? ''
+		: `<text x="${PADDING}" y="${PADDING + 15}" class="header">${escapeXml(options.title)}</text>`;
+
+	const style = `
+    .header { font-weight: 600; font-size: 14px; fill: ${scale.text}; }
+    .label { font-size: 9px; fill: ${scale.text}; }`;
+
+	return svgDocument(
+		width,
+		height,
+		scale.bg,
+		options.hideBorder ? null : scale.border,
+		`${header}\n  ${months}\n  ${weekdays}\n  ${cells.join('')}\n  ${legend}`,
+		style,
+		options.title
+	);
+}
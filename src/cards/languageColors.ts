@@ -0,0 +1,97 @@
+/**
+ * GitHub Linguist Language Colors
+ * 
+ * Subset of the colors defined in github-linguist's `languages.yml`, covering
+ * the languages that realistically show up in a top-languages card.
+ * Unknown languages fall back to Linguist's neutral gray.
+ */
+
+const FALLBACK_COLOR = '#858585';
+
+const LANGUAGE_COLORS: Record<string, string> = {
+	'ActionScript': '#882B0F',
+	'Assembly': '#6E4C13',
+	'Astro': '#ff5a03',
+	'Batchfile': '#C1F12E',
+	'C': '#555555',
+	'C#': '#178600',
+	'C++': '#f34b7d',
+	'Clojure': '#db5855',
+	'CMake': '#DA3434',
+	'CoffeeScript': '#244776',
+	'Crystal': '#000100',
+	'CSS': '#663399',
+	'Cuda': '#3A4E3A',
+	'Dart': '#00B4AB',
+	'Dockerfile': '#384d54',
+	'Elixir': '#6e4a7e',
+	'Elm': '#60B5CC',
+	'Emacs Lisp': '#c065db',
+	'Erlang': '#B83998',
+	'F#': '#b845fc',
+	'Fortran': '#4d41b1',
+	'GDScript': '#355570',
+	'GLSL': '#5686a5',
+	'Go': '#00ADD8',
+	'Groovy': '#4298b8',
+	'Handlebars': '#f7931e',
+	'Haskell': '#5e5086',
+	'HCL': '#844FBA',
+	'HTML': '#e34c26',
+	'Java': '#b07219',
+	'JavaScript': '#f1e05a',
+	'Jupyter Notebook': '#DA5B0B',
+	'Julia': '#a270ba',
+	'Kotlin': '#A97BFF',
+	'Less': '#1d365d',
+	'Lua': '#000080',
+	'Makefile': '#427819',
+	'MATLAB': '#e16737',
+	'MDX': '#fcb32c',
+	'Nim': '#ffc200',
+	'Nix': '#7e7eff',
+	'Objective-C': '#438eff',
+	'Objective-C++': '#6866fb',
+	'OCaml': '#ef7a08',
+	'Pascal': '#E3F171',
+	'Perl': '#0298c3',
+	'PHP': '#4F5D95',
+	'PowerShell': '#012456',
+	'Processing': '#0096D8',
+	'PureScript': '#1D222D',
+	'Python': '#3572A5',
+	'R': '#198CE7',
+	'Racket': '#3c5caa',
+	'Ruby': '#701516',
+	'Rust': '#dea584',
+	'Sass': '#a53b70',
+	'Scala': '#c22d40',
+	'Scheme': '#1e4aec',
+	'SCSS': '#c6538c',
+	'Shell': '#89e051',
+	'Solidity': '#AA6746',
+	'SQL': '#e38c00',
+	'Svelte': '#ff3e00',
+	'Swift': '#F05138',
+	'TeX': '#3D6117',
+	'TSQL': '#e38c00',
+	'TypeScript': '#3178c6',
+	'V': '#4f87c4',
+	'Vala': '#a56de2',
+	'VBA': '#867db1',
+	'Vim Script': '#199f4b',
+	'Visual Basic .NET': '#945db7',
+	'Vue': '#41b883',
+	'WebAssembly': '#04133b',
+	'Zig': '#ec915c',
+};
+
+/**
+ * Looks up the Linguist color for a language.
+ * 
+ * @param language - Language name exactly as reported by GitHub
+ * @returns Hex color string
+ */
+export function languageColor(language: string): string {
+	return (Object.prototype.hasOwnProperty.call(LANGUAGE_COLORS, language) && LANGUAGE_COLORS[language]) || FALLBACK_COLOR;
+}
@@ -0,0 +1,209 @@
+/**
+ * Top Languages Card Renderer
+ *
+ * Renders a user's language breakdown (by bytes of code across owned repos)
+ * as an SVG card in one of three layouts:
+ * - `bar`: one labelled progress bar per language.
+ * - `compact`: a single stacked bar with a two-column legend.
+ * - `donut`: a ring chart with a legend beside it.
+ */
+
+import { CardTheme } from './themes';
+import { languageColor } from './languageColors';
+import { escapeXml, svgDocument } from './svg';
+
+export type LanguagesLayout = 'bar' | 'compact' | 'donut';
+
+export const LANGUAGE_LAYOUTS: readonly LanguagesLayout[] = ['bar', 'compact', 'donut'];
+
+export interface LanguagesCardOptions {
+	/** Resolved color palette */
+	theme: CardTheme;
+	/** Visual layout of the card */
+	layout: LanguagesLayout;
+	/** Maximum number of languages to show */
+	langsCount: number;
+	/** Lower-cased language names to exclude before ranking */
+	hide: Set<string>;
+	/** Drop the card border entirely */
+	hideBorder: boolean;
+	/** Drop the "Most Used Languages" heading */
+	hideTitle: boolean;
+	/** Replaces the default heading text */
+	customTitle?: string;
+}
+
+interface LanguageSlice {
+	name: string;
+	percent: number;
+	color: string;
+}
+
+const CARD_WIDTH = 300;
+const PADDING_X = 25;
+const INNER_WIDTH = CARD_WIDTH - PADDING_X * 2;
+
+/**
+ * Converts raw weights into percentages (one decimal place) that sum to exactly
+ * 100, using the largest-remainder method so rounding error lands on the entries
+ * that were closest to rounding up anyway.
+ *
+ * @param entries - `[name, weight]` pairs; weights need not be normalized
+ * @returns `[name, percent]` pairs in the input order
+ */
+export function allocatePercentages(entries: Array<[string, number]>): Array<[string, number]> {
+	const total = entries.reduce((sum, [, w]) => sum + w, 0);
+	if (total <= 0) return entries.map(([name]) => [name, 0]);
+
+	const SCALE = 1000; // tenths of a percent
+	const exact = entries.map(([, w]) => (w / total) * SCALE);
+	const floored = exact.map(Math.floor);
+	let remaining = SCALE - floored.reduce((a, b) => a + b, 0);
+
+	const byRemainder = exact
+		.map((v, i) => ({ i, r: v - Math.floor(v) }))
+		.sort((a, b) => b.r - a.r);
+	for (const { i } of byRemainder) {
+		if (remaining <= 0) break;
+		floored[i] = (floored[i] ?? 0) + 1;
+		remaining--;
+	}
+
+	return entries.map(([name], i) => [name, (floored[i] ?? 0) / 10]);
+}
+
+/**
+ * Picks the languages to display: drops hidden ones, keeps the `count` largest
+ * by bytes and normalizes their shares to 100%.
+ */
+function selectLanguages(languageBytes: Record<string, number>, hide: Set<string>, count: number): LanguageSlice[] {
+	const top = Object.entries(languageBytes)
+		.filter(([name, bytes]) => bytes > 0 && !hide.has(name.toLowerCase()))
+		.sort((a, b) => b[1] - a[1])
+		.slice(0, count);
+
+	return allocatePercentages(top).map(([name, percent]) => ({ name, percent, color: languageColor(name) }));
+}
+
+function renderBarLayout(slices: LanguageSlice[], top: number): { body: string; height: number } {
+	const rowHeight = 40;
+	const body = slices.map((s, i) => {
+		const y = top + i * rowHeight;
+		const width = Math.max(2, (s.percent / 100) * INNER_WIDTH);
+		return `<g transform="translate(${PADDING_X}, ${y})">
+    <text x="0" y="12" class="lang">${escapeXml(s.name)}</text>
+    <text x="${INNER_WIDTH}" y="12" text-anchor="end" class="percent">${s.percent.toFixed(1)}%</text>
+    <rect x="0" y="20" rx="4" width="${INNER_WIDTH}" height="8" class="track"/>
+    <rect x="0" y="20" rx="4" width="${width.toFixed(2)}" height="8" fill="${s.color}"/>
+  </g>`;
+	}).join('\n  ');
+	return { body, height: top + slices.length * rowHeight + 10 };
+}
+
+function renderCompactLayout(slices: LanguageSlice[], top: number): { body: string; height: number } {
+	let offset = 0;
+	const segments = slices.map(s => {
+		const width = (s.percent / 100) * INNER_WIDTH;
+		const rect = `<rect x="${offset.toFixed(2)}" y="0" width="${width.toFixed(2)}" height="8" fill="${s.color}"/>`;
+		offset += width;
+		return rect;
+	}).join('');
+
+	const columnWidth = INNER_WIDTH / 2;
+	const legend = slices.map((s, i) => {
+		const x = (i % 2) * columnWidth;
+		const y = 30 + Math.floor(i / 2) * 25;
+		return `<g transform="translate(${x}, ${y})">
+      <circle cx="5" cy="6" r="5" fill="${s.color}"/>
+      <text x="15" y="10" class="lang">${escapeXml(s.name)} <tspan class="percent">${s.percent.toFixed(1)}%</tspan></text>
+    </g>`;
+	}).join('\n    ');
+
+	const body = `<g transform="translate(${PADDING_X}, ${top})">
+    <clipPath id="bar-clip"><rect x="0" y="0" rx="4" width="${INNER_WIDTH}" height="8"/></clipPath>
+    <g clip-path="url(#bar-clip)">${segments}</g>
+    ${legend}
+  </g>`;
+	return { body, height: top + 30 + Math.ceil(slices.length / 2) * 25 + 10 };
+}
+
+function renderDonutLayout(slices: LanguageSlice[], top: number): { body: string; height: number } {
+	const radius = 40;
+	const stroke = 16;
+	const cx = PADDING_X + radius + stroke / 2;
+	const circumference = 2 * Math.PI * radius;
+	const legendRow = 22;
+	const chartHeight = (radius + stroke / 2) * 2;
+	const legendHeight = slices.length * legendRow;
+	const cy = top + Math.max(chartHeight, legendHeight) / 2;
+
+	let offset = 0;
+	const arcs = slices.map(s => {
+		const length = (s.percent / 100) * circumference;
+		const arc = `<circle cx="${cx}" cy="${cy.toFixed(2)}" r="${radius}" fill="none" stroke="${s.color}" stroke-width="${stroke}" ` +
+			`stroke-dasharray="${length.toFixed(2)} ${(circumference - length).toFixed(2)}" stroke-dashoffset="${(-offset).toFixed(2)}" ` +
+			`transform="rotate(-90 ${cx} ${cy.toFixed(2)})"/>`;
+		offset += length;
+		return arc;
+	}).join('\n  ');
+
+	const legendX = cx + radius + stroke / 2 + 20;
+	const legendTop = cy - legendHeight / 2;
+	const legend = slices.map((s, i) => {
+		const y = legendTop + i * legendRow;
+		return `<g transform="translate(${legendX}, ${y.toFixed(2)})">
+    <circle cx="5" cy="10" r="5" fill="${s.color}"/>
+    <text x="15" y="14" class="lang">${escapeXml(s.name)} <tspan class="percent">${s.percent.toFixed(1)}%</tspan></text>
+  </g>`;
+	}).join('\n  ');
+
+	return {
+		body: `${arcs}\n  ${legend}`,
+		height: top + Math.max(chartHeight, legendHeight) + 20,
+	};
+}
+
+/**
+ * Renders the top languages card SVG.
+ *
+ * @param languageBytes - Total bytes of code per language across owned repos
+ * @param options - Layout, theme and filtering options parsed from the query
+ * @returns Complete SVG document
+ */
+export function renderLanguagesCard(languageBytes: Record<string, number>, options: LanguagesCardOptions): string {
+	const { theme } = options;
+	const slices = selectLanguages(languageBytes, options.hide, options.langsCount);
+	const title = options.customTitle ?? 'Most Used Languages';
+	const top = options.hideTitle ? 20 : 55;
+
+	const header = options.hideTitle
+		? ''
+		: `<text x="${PADDING_X}" y="35" class="header">${escapeXml(title)}</text>`;
+
+	let layout: { body: string; height: number };
+	if (slices.length === 0) {
+		layout = { body: `<text x="${PADDING_X}" y="${top + 15}" class="lang">No language data</text>`, height: top + 40 };
+	} else if (options.layout === 'compact') {
+		layout = renderCompactLayout(slices, top);
+	} else if (options.layout === 'donut') {
+		layout = renderDonutLayout(slices, top);
+	} else {
+		layout = renderBarLayout(slices, top);
+	}
+
+	const style = `
+    .header { font-weight: 600; font-size: 18px; fill: ${theme.title}; }
+    .lang { font-weight: 400; font-size: 12px; fill: ${theme.text}; }
+    .percent { font-weight: 600; font-size: 12px; fill: ${theme.text}; opacity: 0.8; }
+    .track { fill: ${theme.text}; opacity: 0.15; }`;
+
+	return svgDocument(
+		CARD_WIDTH,
+		Math.ceil(layout.height),
+		theme.bg,
+		options.hideBorder ? null : theme.border,
+		`${header}\n  ${layout.body}`,
+		style,
+		title
+	);
+}
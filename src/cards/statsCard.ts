@@ -0,0 +1,104 @@
+/**
+ * Stats Card Renderer
+ *
+ * Renders the headline numbers of a `GitHubStats` object as an embeddable SVG
+ * card — the same data the JSON `/stats` endpoint returns, ready for a README.
+ */
+
+import { GitHubStats } from '../types';
+import { CardTheme } from './themes';
+import { escapeXml, formatCompact, svgDocument } from './svg';
+
+/** Identifiers for each row of the stats card, usable in `?hide=`. */
+export type StatsCardField =
+	| 'stars'
+	| 'commits'
+	| 'prs'
+	| 'issues'
+	| 'current_streak'
+	| 'longest_streak'
+	| 'followers';
+
+export interface StatsCardOptions {
+	/** Resolved color palette */
+	theme: CardTheme;
+	/** Rows to omit from the card */
+	hide: Set<string>;
+	/** Drop the card border entirely */
+	hideBorder: boolean;
+	/** Drop the "<name>'s GitHub Stats" heading */
+	hideTitle: boolean;
+	/** Replaces the default heading text */
+	customTitle?: string;
+}
+
+interface StatRow {
+	field: StatsCardField;
+	label: string;
+	value: string;
+}
+
+const CARD_WIDTH = 450;
+const ROW_HEIGHT = 25;
+const PADDING_X = 25;
+
+/**
+ * Builds the ordered list of rows shown on the card.
+ */
+function buildRows(stats: GitHubStats): StatRow[] {
+	return [
+		{ field: 'stars', label: 'Total Stars', value: formatCompact(stats.totalStars) },
+		{ field: 'commits', label: 'Total Commits', value: formatCompact(stats.totalCommits) },
+		{ field: 'prs', label: 'Total PRs', value: formatCompact(stats.totalPRs) },
+		{ field: 'issues', label: 'Total Issues', value: formatCompact(stats.totalIssues) },
+		{ field: 'current_streak', label: 'Current Streak', value: `${stats.currentStreak} days` },
+		{ field: 'longest_streak', label: 'Longest Streak', value: `${stats.longestStreak} days` },
+		{ field: 'followers', label: 'Followers', value: formatCompact(stats.followers) },
+	];
+}
+
+/**
+ * Renders the stats card SVG.
+ *
+ * @param stats - Aggregated stats (fresh or from `statsCache`)
+ * @param options - Theme and visibility options parsed from the query
+ * @returns Complete SVG document
+ */
+export function renderStatsCard(stats: GitHubStats, options: StatsCardOptions): string {
+	const { theme } = options;
+	const rows = buildRows(stats).filter(r => !options.hide.has(r.field));
+	const displayName = stats.name?.trim() || stats.username;
+	const title = options.customTitle ?? `${displayName}'s GitHub Stats`;
+
+	const headerHeight = options.hideTitle ? 20 : 55;
+	const height = headerHeight + rows.length * ROW_HEIGHT + 15;
+
+	const header = options.hideTitle
+		? ''
+		: `<text x="${PADDING_X}" y="35" class="header">${escapeXml(title)}</text>`;
+
+	const body = rows.map((row, i) => {
+		const y = headerHeight + i * ROW_HEIGHT;
+		return `<g transform="translate(${PADDING_X}, ${y})">
+    <circle cx="6" cy="8" r="5" class="icon"/>
+    <text x="22" y="12.5" class="label">${escapeXml(row.label)}:</text>
+    <text x="${CARD_WIDTH - PADDING_X * 2}" y="12.5" text-anchor="end" class="value">${escapeXml(row.value)}</text>
+  </g>`;
+	}).join('\n  ');
+
+	const style = `
+    .header { font-weight: 600; font-size: 18px; fill: ${theme.title}; }
+    .label { font-weight: 600; font-size: 14px; fill: ${theme.text}; }
+    .value { font-weight: 700; font-size: 14px; fill: ${theme.text}; }
+    .icon { fill: ${theme.icon}; }`;
+
+	return svgDocument(
+		CARD_WIDTH,
+		height,
+		theme.bg,
+		options.hideBorder ? null : theme.border,
+		`${header}\n  ${body}`,
+		style,
+		title
+	);
+}
@@ -0,0 +1,93 @@
+/**
+ * SVG Rendering Helpers
+ * 
+ * Small, dependency-free primitives shared by every SVG card renderer.
+ * Cards are built as plain template strings — no DOM, no canvas — so they
+ * render identically on a long-lived server and inside a Netlify function.
+ */
+
+import { CardTheme } from './themes';
+
+/** Font stack used by all cards (matches GitHub's own UI font). */
+export const FONT_FAMILY = `-apple-system, BlinkMacSystemFont, 'Segoe UI', Helvetica, Arial, sans-serif`;
+
+/**
+ * Escapes a string for safe inclusion in SVG text content or attribute values.
+ * 
+ * @param value - Raw, untrusted text (names, bios, language names, ...)
+ * @returns XML-escaped string
+ */
+export function escapeXml(value: string): string {
+	return value
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&apos;');
+}
+
+/**
+ * Formats a number in compact notation (e.g. 1234 → "1.2k", 2500000 → "2.5m").
+ * 
+ * @param n - The number to format
+ * @returns Human-friendly string
+ */
+export function formatCompact(n: number): string {
+	const abs = Math.abs(n);
+	if (abs >= 1_000_000) return `${trimZero((n / 1_000_000).toFixed(1))}m`;
+	if (abs >= 1_000) return `${trimZero((n / 1_000).toFixed(1))}k`;
+	return String(n);
+}
+
+function trimZero(s: string): string {
+	return s.endsWith('.0') ? s.slice(0, -2) : s;
+}
+
+/**
+ * Wraps card content in the outer <svg> element with a rounded background.
+ * 
+ * @param width - Card width in px
+ * @param height - Card height in px
+ * @param bg - Background color (any CSS color)
+ * @param border - Border color, or null to hide the border
+ * @param body - Inner SVG markup
+ * @param style - CSS rules for the embedded <style> block
+ * @param title - Accessible title for screen readers
+ * @returns Complete SVG document
+ */
+export function svgDocument(
+	width: number,
+	height: number,
+	bg: string,
+	border: string | null,
+	body: string,
+	style: string,
+	title: string
+): string {
+	return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" fill="none" role="img" aria-labelledby="title">
+  <title id="title">${escapeXml(title)}</title>
+  <style>
+    text { font-family: ${FONT_FAMILY}; }
+    ${style}
+  </style>
+  <rect x="0.5" y="0.5" rx="4.5" width="${width - 1}" height="${height - 1}" fill="${bg}" stroke="${border ?? 'none'}" stroke-opacity="${border ? 1 : 0}"/>
+  ${body}
+</svg>`;
+}
+
+/**
+ * Renders a small card carrying an error message, so a broken embed shows
+ * *why* it is broken instead of a generic missing-image icon.
+ *
+ * @param message - Short, user-facing error message
+ * @param theme - Palette to render with
+ * @returns Complete SVG document
+ */
+export function renderErrorCard(message: string, theme: CardTheme): string {
+	const style = `
+    .header { font-weight: 600; font-size: 16px; fill: #e34c26; }
+    .message { font-size: 13px; fill: ${theme.text}; }`;
+	const body = `<text x="25" y="35" class="header">Something went wrong</text>
+  <text x="25" y="60" class="message">${escapeXml(message)}</text>`;
+	return svgDocument(450, 90, theme.bg, theme.border, body, style, message);
+}
@@ -0,0 +1,68 @@
+/**
+ * Card Themes
+ * 
+ * Named color palettes for the SVG cards plus per-request overrides.
+ * Custom colors are accepted as bare hex values (`?title_color=ff6e96`) and
+ * validated before they ever reach the SVG markup.
+ */
+
+/** Resolved set of colors used by a card. Values are CSS color strings. */
+export interface CardTheme {
+	title: string;
+	text: string;
+	icon: string;
+	bg: string;
+	border: string;
+}
+
+/** Color keys that can be overridden via `<key>_color` query params. */
+export type ThemeColorKey = keyof CardTheme;
+
+const DEFAULT_THEME: CardTheme = { title: '#2f80ed', text: '#434d58', icon: '#4c71f2', bg: '#fffefe', border: '#e4e2e2' };
+
+export const THEMES: Record<string, CardTheme> = {
+	default: DEFAULT_THEME,
+	dark: { title: '#ffffff', text: '#9f9f9f', icon: '#79ff97', bg: '#151515', border: '#e4e2e2' },
+	github_dark: { title: '#58a6ff', text: '#c9d1d9', icon: '#1f6feb', bg: '#0d1117', border: '#30363d' },
+	radical: { title: '#fe428e', text: '#a9fef7', icon: '#f8d847', bg: '#141321', border: '#e4e2e2' },
+	tokyonight: { title: '#70a5fd', text: '#38bdae', icon: '#bf91f3', bg: '#1a1b27', border: '#e4e2e2' },
+	dracula: { title: '#ff6e96', text: '#f8f8f2', icon: '#79dafa', bg: '#282a36', border: '#e4e2e2' },
+	gruvbox: { title: '#fabd2f', text: '#8ec07c', icon: '#fe8019', bg: '#282828', border: '#e4e2e2' },
+	transparent: { title: '#006aff', text: '#417e87', icon: '#0579c3', bg: 'transparent', border: '#e4e2e2' },
+};
+
+const HEX_COLOR = /^(?:[0-9a-fA-F]{3}|[0-9a-fA-F]{4}|[0-9a-fA-F]{6}|[0-9a-fA-F]{8})$/;
+
+/**
+ * Normalizes a user-supplied color into `#rrggbb` form.
+ * 
+ * @param value - Raw query value, with or without a leading `#`
+ * @returns The normalized color, or null if the value is not a valid hex color
+ */
+export function parseHexColor(value: string | undefined): string | null {
+	if (!value) return null;
+	const hex = value.startsWith('#') ? value.slice(1) : value;
+	return HEX_COLOR.test(hex) ? `#${hex.toLowerCase()}` : null;
+}
+
+/**
+ * Resolves a theme by name and applies any valid color overrides on top.
+ * Unknown theme names fall back to `default`; invalid colors are ignored.
+ * 
+ * @param name - Theme name from the `theme` query param
+ * @param overrides - Raw color overrides keyed by theme color
+ * @returns The final color set for the card
+ */
+export function resolveTheme(
+	name: string | undefined,
+	overrides: Partial<Record<ThemeColorKey, string | undefined>> = {}
+): CardTheme {
+	// Own keys only: `constructor` or `__proto__` would resolve to Object members
+	const base = (name && Object.prototype.hasOwnProperty.call(THEMES, name) && THEMES[name]) || DEFAULT_THEME;
+	const theme = { ...base };
+	for (const key of Object.keys(theme) as ThemeColorKey[]) {
+		const color = parseHexColor(overrides[key]);
+		if (color) theme[key] = color;
+	}
+	return theme;
+}
@@ -0,0 +1,135 @@
+/**
+ * Application Errors
+ *
+ * Errors that know their HTTP status and a stable machine-readable `code`.
+ * Routes and upstream helpers throw them; `errorHandler` turns any thrown error
+ * into the shared JSON envelope (`ErrorEnvelope`), so clients can branch on
+ * `code` instead of parsing messages.
+ */
+
+/** JSON body of every error response. */
+export interface ErrorEnvelope {
+	/** Stable identifier, e.g. `UPSTREAM_NOT_FOUND` */
+	code: string;
+	/** Human-readable description; wording may change */
+	message: string;
+	/** Correlates the response with server logs (`X-Request-Id`) */
+	requestId: string;
+	/** Seconds to wait before retrying (also sent as `Retry-After`) */
+	retryAfter?: number;
+	/** Extra context, e.g. usage hints for validation errors */
+	details?: Record<string, unknown>;
+}
+
+export interface AppErrorOptions {
+	retryAfter?: number;
+	details?: Record<string, unknown>;
+	/** The error that caused this one */
+	cause?: unknown;
+}
+
+export class AppError extends Error {
+	readonly retryAfter?: number;
+	readonly details?: Record<string, unknown>;
+
+	/**
+	 * @param status - HTTP status to respond with
+	 * @param code - Stable error code
+	 * @param message - Human-readable description
+	 * @param options - Retry hint, details and cause
+	 */
+	constructor(readonly status: number, readonly code: string, message: string, options: AppErrorOptions = {}) {
+		super(message);
+		this.name = new.target.name;
+		if (options.retryAfter !== undefined) this.retryAfter = options.retryAfter;
+		if (options.details) this.details = options.details;
+		if (options.cause !== undefined) (this as { cause?: unknown }).cause = options.cause;
+	}
+}
+
+/** A request parameter or body is invalid (400). */
+export class ValidationError extends AppError {
+	/**
+	 * @param message - What is wrong with the request
+	 * @param details - Extra context, e.g. `{ usage }`
+	 */
+	constructor(message: string, details?: Record<string, unknown>) {
+		super(400, 'VALIDATION_ERROR', message, { details });
+	}
+}
+
+/** GitHub answered with, or failed with, something we can't serve. */
+export class UpstreamError extends AppError { }
+
+/** The user, organization, repository or path doesn't exist on GitHub (404). */
+export class UpstreamNotFound extends UpstreamError {
+	constructor(message: string, options: AppErrorOptions = {}) {
+		super(404, 'UPSTREAM_NOT_FOUND', message, options);
+	}
+}
+
+/** GitHub rejected the configured token(s) (401). */
+export class UpstreamAuthError extends UpstreamError {
+	constructor(message = 'GitHub API authentication failed', options: AppErrorOptions = {}) {
+		super(401, 'UPSTREAM_AUTH_FAILED', message, options);
+	}
+}
+
+/** GitHub's rate limit is exhausted, or too close to it to start the work (429). */
+export class UpstreamRateLimited extends UpstreamError {
+	constructor(message: string, options: AppErrorOptions = {}) {
+		super(429, 'UPSTREAM_RATE_LIMITED', message, options);
+	}
+}
+
+/** GitHub can't be reached or keeps failing with 5xx (503). */
+export class UpstreamUnavailable extends UpstreamError {
+	constructor(message = 'Cannot reach GitHub API', options: AppErrorOptions = {}) {
+		super(503, 'UPSTREAM_UNAVAILABLE', message, options);
+	}
+}
+
+/** GitHub didn't answer within the call's time limit (504). */
+export class UpstreamTimeout extends UpstreamError {
+	constructor(message: string, options: AppErrorOptions = {}) {
+		super(504, 'UPSTREAM_TIMEOUT', message, options);
+	}
+}
+
+/**
+ * Normalizes anything thrown into an `AppError`. Client errors raised by
+ * Express middleware (e.g. malformed JSON bodies) keep their status; anything
+ * else becomes a 500 whose message is only revealed outside production.
+ *
+ * @param err - The caught value
+ * @returns The error itself, or an `AppError` describing it
+ */
+export function toAppError(err: unknown): AppError {
+	if (err instanceof AppError) return err;
+
+	// body-parser and friends mark safe-to-show client errors with `expose`
+	const httpError = err as { status?: unknown; expose?: unknown; message?: unknown } | null;
+	if (typeof httpError?.status === 'number' && httpError.status >= 400 && httpError.status < 500 && httpError.expose === true) {
+		return new AppError(httpError.status, 'BAD_REQUEST', String(httpError.message), { cause: err });
+	}
+
+	const message = err instanceof Error ? err.message : String(err);
+	return new AppError(500, 'INTERNAL_ERROR', process.env.NODE_ENV === 'production' ? 'Internal server error' : message, { cause: err });
+}
+
+/**
+ * Builds the envelope for an error.
+ *
+ * @param err - The error to describe
+ * @param requestId - ID of the request that failed
+ * @returns The JSON body to send
+ */
+export function errorEnvelope(err: AppError, requestId: string): ErrorEnvelope {
+	return {
+		code: err.code,
+		message: err.message,
+		requestId,
+		...(err.retryAfter !== undefined && { retryAfter: err.retryAfter }),
+		...(err.details && { details: err.details }),
+	};
+}
@@ -0,0 +1,238 @@
+/**
+ * GitHub Circuit Breakers
+ *
+ * One breaker per upstream (`rest` for api.github.com, `graphql` for its GraphQL
+ * endpoint) stops calling GitHub while it is failing, so requests answer from
+ * cache or fail fast instead of sitting through every retry.
+ *
+ * - **closed:** calls go through. Each attempt's outcome is counted over a
+ *   rolling window; once enough attempts were made and too many failed, the
+ *   breaker opens. Failures are 5xx responses, timeouts and network errors —
+ *   4xx and rate limits mean GitHub is up.
+ * - **open:** calls fail with `CircuitOpenError` (503) without reaching GitHub.
+ * - **half-open:** once the cool-down has passed, a single probe call goes
+ *   through; its success closes the breaker, its failure opens it again.
+ *
+ * Thresholds come from `CIRCUIT_FAILURE_RATE`, `CIRCUIT_MIN_REQUESTS`,
+ * `CIRCUIT_WINDOW_MS` and `CIRCUIT_OPEN_MS`, read on first use. State is per
+ * process (per instance on Netlify).
+ */
+import { UpstreamError } from '../errors';
+import { envNumber } from '../utils/env';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/** Upstreams with their own breaker. */
+export type Upstream = 'rest' | 'graphql';
+
+export interface CircuitBreakerOptions {
+	/** Share of failed attempts (0–1) that opens the breaker */
+	failureRate: number;
+	/** Attempts in the window before the failure rate counts */
+	minRequests: number;
+	/** Rolling window outcomes are counted over (ms) */
+	windowMs: number;
+	/** How long the breaker stays open before probing (ms) */
+	openMs: number;
+}
+
+export interface CircuitStatus {
+	state: CircuitState;
+	/** Attempts and failures in the current window */
+	requests: number;
+	failures: number;
+	failureRate: number;
+	/** When the breaker last opened (while open or half-open) */
+	openedAt?: string;
+	/** When the next probe may go through (while open) */
+	retryAt?: string;
+}
+
+/** Outcome counts of one slice of the window. */
+interface Bucket {
+	start: number;
+	requests: number;
+	failures: number;
+}
+
+/** Slices per window; outcomes leave the window one slice at a time. */
+const WINDOW_BUCKETS = 10;
+
+/**
+ * Thrown instead of calling an upstream whose breaker is open.
+ */
+export class CircuitOpenError extends UpstreamError {
+	/**
+	 * @param upstream - Upstream whose breaker is open
+	 * @param retryAt - When the next probe may go through (ms since epoch)
+	 */
+	constructor(readonly upstream: Upstream, readonly retryAt: number) {
+		super(503, 'UPSTREAM_CIRCUIT_OPEN', `GitHub ${upstream === 'graphql' ? 'GraphQL' : 'REST'} API is failing; calls are paused until ${new Date(retryAt).toISOString()}`, {
+			retryAfter: Math.max(1, Math.ceil((retryAt - Date.now()) / 1000)),
+			details: { upstream },
+		});
+	}
+}
+
+export class CircuitBreaker {
+	private state: CircuitState = 'closed';
+	private buckets: Bucket[] = [];
+	private openedAt = 0;
+	private probing = false;
+
+	/**
+	 * @param upstream - Upstream the breaker guards (used in logs and errors)
+	 * @param options - Thresholds
+	 */
+	constructor(readonly upstream: Upstream, private readonly options: CircuitBreakerOptions) { }
+
+	/**
+	 * Throws if calls are currently refused, without claiming the half-open probe.
+	 * Lets callers answer from cache before doing any other work.
+	 *
+	 * @throws {CircuitOpenError} While open and cooling down
+	 */
+	check(): void {
+		if (this.state === 'open' && Date.now() < this.retryAt()) {
+			throw new CircuitOpenError(this.upstream, this.retryAt());
+		}
+	}
+
+	/**
+	 * Admits one attempt. Past the cool-down, the first attempt becomes the
+	 * half-open probe; others are refused until it reports back.
+	 *
+	 * @returns True if the attempt is the probe
+	 * @throws {CircuitOpenError} If the attempt may not go through
+	 */
+	acquire(): boolean {
+		if (this.state === 'closed') return false;
+		if (this.state === 'open') {
+			this.check();
+			this.state = 'half-open';
+			console.log(`[circuit] ${this.upstream} half-open: probing`);
+		}
+		if (this.probing) throw new CircuitOpenError(this.upstream, Date.now() + 1000);
+		this.probing = true;
+		return true;
+	}
+
+	/**
+	 * Reports how an admitted attempt went.
+	 *
+	 * @param success - False for 5xx, timeouts and network errors
+	 * @param probe - The value `acquire` returned for the attempt
+	 */
+	record(success: boolean, probe: boolean): void {
+		if (probe) {
+			this.probing = false;
+			if (success) {
+				this.state = 'closed';
+				this.buckets = [];
+				console.log(`[circuit] ${this.upstream} closed`);
+			} else {
+				this.open('probe failed');
+			}
+			return;
+		}
+
+		const bucket = this.currentBucket();
+		bucket.requests++;
+		if (!success) bucket.failures++;
+
+		if (this.state !== 'closed' || success) return;
+		const { requests, failures } = this.totals();
+		if (requests >= this.options.minRequests && failures / requests >= this.options.failureRate) {
+			this.open(`${failures}/${requests} attempts failed in the last ${Math.round(this.options.windowMs / 1000)}s`);
+		}
+	}
+
+	/**
+	 * Whether calls are refused right now (open and cooling down).
+	 */
+	isOpen(): boolean {
+		return this.state === 'open' && Date.now() < this.retryAt();
+	}
+
+	/**
+	 * Describes the breaker for health checks.
+	 *
+	 * @returns State, window counts and, while not closed, when it opened
+	 */
+	status(): CircuitStatus {
+		const { requests, failures } = this.totals();
+		return {
+			state: this.state,
+			requests,
+			failures,
+			failureRate: requests > 0 ? Math.round((failures / requests) * 100) / 100 : 0,
+			...(this.state !== 'closed' && { openedAt: new Date(this.openedAt).toISOString() }),
+			...(this.state === 'open' && { retryAt: new Date(this.retryAt()).toISOString() }),
+		};
+	}
+
+	private open(reason: string): void {
+		this.state = 'open';
+		this.openedAt = Date.now();
+		console.warn(`[circuit] ${this.upstream} opened for ${Math.round(this.options.openMs / 1000)}s: ${reason}`);
+	}
+
+	private retryAt(): number {
+		return this.openedAt + this.options.openMs;
+	}
+
+	private currentBucket(): Bucket {
+		const size = this.options.windowMs / WINDOW_BUCKETS;
+		const start = Date.now() - (Date.now() % size);
+		const last = this.buckets[this.buckets.length - 1];
+		if (last?.start === start) return last;
+
+		const bucket = { start, requests: 0, failures: 0 };
+		this.buckets.push(bucket);
+		return bucket;
+	}
+
+	private totals(): { requests: number; failures: number } {
+		const cutoff = Date.now() - this.options.windowMs;
+		this.buckets = this.buckets.filter(b => b.start > cutoff);
+		return this.buckets.reduce(
+			(sum, b) => ({ requests: sum.requests + b.requests, failures: sum.failures + b.failures }),
+			{ requests: 0, failures: 0 }
+		);
+	}
+}
+
+const breakers = new Map<Upstream, CircuitBreaker>();
+
+/**
+ * Returns the process-wide breaker for an upstream, configured on first use.
+ *
+ * @param upstream - `rest` or `graphql`
+ * @returns The breaker
+ */
+export function getCircuitBreaker(upstream: Upstream): CircuitBreaker {
+	let breaker = breakers.get(upstream);
+	if (!breaker) {
+		const failureRate = envNumber('CIRCUIT_FAILURE_RATE', 0.5);
+		breaker = new CircuitBreaker(upstream, {
+			failureRate: failureRate > 0 && failureRate <= 1 ? failureRate : 0.5,
+			minRequests: Math.max(1, envNumber('CIRCUIT_MIN_REQUESTS', 10)),
+			windowMs: Math.max(1000, envNumber('CIRCUIT_WINDOW_MS', 60_000)),
+			openMs: envNumber('CIRCUIT_OPEN_MS', 30_000),
+		});
+		breakers.set(upstream, breaker);
+	}
+	return breaker;
+}
+
+/**
+ * Describes both breakers for `/health`.
+ *
+ * @returns Status keyed by upstream
+ */
+export function circuitBreakerStatus(): Record<Upstream, CircuitStatus> {
+	return {
+		rest: getCircuitBreaker('rest').status(),
+		graphql: getCircuitBreaker('graphql').status(),
+	};
+}
@@ -0,0 +1,234 @@
+/**
+ * GitHub Rate Limit Tracker
+ *
+ * Records the quota GitHub reports on every upstream response — REST `core`,
+ * `search` and GraphQL points — per credential (pooled token or anonymous), so
+ * routes can check a budget before starting work instead of running out halfway
+ * through an aggregation.
+ *
+ * A budget counts as low once fewer than its reserve plus the request's expected
+ * cost remain. The reserve is `GITHUB_BUDGET_RESERVE` percent of the limit
+ * (default 2, at least 1 request), read on first use.
+ */
+import { createHash } from 'crypto';
+import { UpstreamRateLimited } from '../errors';
+import { envNumber } from '../utils/env';
+
+/** Quota of one credential for one resource, as last reported by GitHub. */
+export interface Quota {
+	remaining: number;
+	limit: number;
+	/** When the quota refills (ms since epoch) */
+	resetAt: number;
+	/** When GitHub reported it (ms since epoch) */
+	updatedAt: number;
+}
+
+/** Combined quota of the credentials requests are currently made with. */
+export interface ResourceBudget {
+	resource: string;
+	remaining: number;
+	limit: number;
+	/** When the earliest of the quotas refills (ms since epoch) */
+	resetAt: number;
+	/** Every credential has reported a current quota; otherwise `remaining` is a lower bound */
+	complete: boolean;
+}
+
+export interface BudgetSnapshot {
+	remaining: number;
+	limit: number;
+	used: number;
+	resetAt: string;
+	/** Below the reserve: uncached requests are refused or served stale */
+	low: boolean;
+	/** Points each GraphQL query cost the last time it ran (`graphql` only) */
+	queryCosts?: Record<string, number>;
+	/** Credentials that reported this quota, out of those in use */
+	credentials: { reported: number; total: number };
+}
+
+/**
+ * Thrown before an upstream call when the budget it needs is nearly spent.
+ */
+export class RateLimitBudgetError extends UpstreamRateLimited {
+	/**
+	 * @param resource - Rate limit resource, e.g. `graphql`
+	 * @param remaining - Requests or points left
+	 * @param resetAt - When the budget refills (ms since epoch)
+	 */
+	constructor(readonly resource: string, readonly remaining: number, readonly resetAt: number) {
+		super(
+			`GitHub ${resource} rate limit nearly exhausted (${remaining} left), resets at ${new Date(resetAt).toISOString()}`,
+			{ retryAfter: Math.max(1, Math.ceil((resetAt - Date.now()) / 1000)) }
+		);
+	}
+}
+
+/** Key a credential's quotas are stored under, so the tracker never holds tokens. */
+function credentialKey(token: string | null): string {
+	return token ? createHash('sha256').update(token).digest('hex').slice(0, 16) : 'anonymous';
+}
+
+export class RateLimitTracker {
+	/** Credential key → resource → quota */
+	private readonly quotas = new Map<string, Map<string, Quota>>();
+	private readonly queryCosts = new Map<string, number>();
+
+	/**
+	 * Records the `X-RateLimit-*` headers of a GitHub response. Responses without
+	 * them (e.g. network errors mapped by a proxy) are ignored.
+	 *
+	 * @param token - Token the request was made with, or null if anonymous
+	 * @param res - GitHub's response
+	 * @param fallbackResource - Resource to assume when `X-RateLimit-Resource` is missing
+	 */
+	record(token: string | null, res: Response, fallbackResource = 'core'): void {
+		const remaining = Number(res.headers.get('X-RateLimit-Remaining'));
+		const limit = Number(res.headers.get('X-RateLimit-Limit'));
+		const reset = Number(res.headers.get('X-RateLimit-Reset'));
+		if (!res.headers.has('X-RateLimit-Remaining') || !Number.isFinite(remaining) || !Number.isFinite(reset)) return;
+
+		const resource = res.headers.get('X-RateLimit-Resource') ?? fallbackResource;
+		this.update(token, resource, { remaining, limit: Number.isFinite(limit) ? limit : remaining, resetAt: reset * 1000 });
+	}
+
+	/**
+	 * Records the `rateLimit { cost remaining resetAt }` block of a GraphQL response.
+	 *
+	 * @param token - Token the query was made with, or null if anonymous
+	 * @param rateLimit - The block from the response's `data`
+	 * @param query - Name the cost is remembered under, e.g. `stats`
+	 */
+	recordGraphQL(token: string | null, rateLimit: { cost: number; remaining: number; resetAt: string; limit?: number }, query: string): void {
+		const resetAt = Date.parse(rateLimit.resetAt);
+		if (Number.isNaN(resetAt)) return;
+		const previous = this.quotas.get(credentialKey(token))?.get('graphql');
+		this.update(token, 'graphql', { remaining: rateLimit.remaining, limit: rateLimit.limit ?? previous?.limit ?? rateLimit.remaining, resetAt });
+		this.queryCosts.set(query, rateLimit.cost);
+	}
+
+	/**
+	 * Points a GraphQL query cost the last time it ran.
+	 *
+	 * @param query - Name passed to `recordGraphQL`
+	 * @returns The cost, or undefined if the query hasn't reported one
+	 */
+	lastQueryCost(query: string): number | undefined {
+		return this.queryCosts.get(query);
+	}
+
+	/**
+	 * Returns a credential's current quota for a resource.
+	 *
+	 * @param token - Pooled token, or null for anonymous requests
+	 * @param resource - Rate limit resource
+	 * @returns The quota, or null if unknown or already refilled
+	 */
+	quota(token: string | null, resource: string): Quota | null {
+		const quota = this.quotas.get(credentialKey(token))?.get(resource);
+		return quota && quota.resetAt > Date.now() ? quota : null;
+	}
+
+	/**
+	 * Combines the quotas of several credentials for one resource.
+	 *
+	 * @param resource - Rate limit resource
+	 * @param tokens - Credentials in use (`[null]` when requests are anonymous)
+	 * @returns The combined budget, or null if none has reported one
+	 */
+	budget(resource: string, tokens: Array<string | null>): ResourceBudget | null {
+		const quotas = tokens.map(token => this.quota(token, resource));
+		const known = quotas.filter((q): q is Quota => q !== null);
+		if (known.length === 0) return null;
+		return {
+			resource,
+			remaining: known.reduce((sum, q) => sum + q.remaining, 0),
+			limit: known.reduce((sum, q) => sum + q.limit, 0),
+			resetAt: Math.min(...known.map(q => q.resetAt)),
+			complete: known.length === tokens.length,
+		};
+	}
+
+	/**
+	 * Throws if a request costing `needed` would dip into a resource's reserve.
+	 * Budgets not (completely) reported yet always pass.
+	 *
+	 * @param resource - Rate limit resource
+	 * @param tokens - Credentials in use (`[null]` when requests are anonymous)
+	 * @param needed - Requests or points the work is expected to cost
+	 * @throws {RateLimitBudgetError} If the budget is too low
+	 */
+	ensureBudget(resource: string, tokens: Array<string | null>, needed = 1): void {
+		const budget = this.budget(resource, tokens);
+		if (budget?.complete && budget.remaining < reserveFor(budget.limit) + needed) {
+			throw new RateLimitBudgetError(resource, budget.remaining, budget.resetAt);
+		}
+	}
+
+	/**
+	 * Describes every resource seen so far for the rate limit endpoint.
+	 *
+	 * @param tokens - Credentials in use (`[null]` when requests are anonymous)
+	 * @returns Budgets keyed by resource
+	 */
+	snapshot(tokens: Array<string | null>): Record<string, BudgetSnapshot> {
+		const resources = new Set<string>();
+		for (const byResource of this.quotas.values()) for (const resource of byResource.keys()) resources.add(resource);
+
+		const out: Record<string, BudgetSnapshot> = {};
+		for (const resource of [...resources].sort()) {
+			const budget = this.budget(resource, tokens);
+			if (!budget) continue;
+			const reported = tokens.filter(token => this.quota(token, resource)).length;
+			out[resource] = {
+				remaining: budget.remaining,
+				limit: budget.limit,
+				used: budget.limit - budget.remaining,
+				resetAt: new Date(budget.resetAt).toISOString(),
+				low: budget.complete && budget.remaining < reserveFor(budget.limit) + 1,
+				...(resource === 'graphql' && this.queryCosts.size > 0 && { queryCosts: Object.fromEntries(this.queryCosts) }),
+				credentials: { reported, total: tokens.length },
+			};
+		}
+		return out;
+	}
+
+	private update(token: string | null, resource: string, quota: Omit<Quota, 'updatedAt'>): void {
+		const key = credentialKey(token);
+		let byResource = this.quotas.get(key);
+		if (!byResource) {
+			byResource = new Map();
+			this.quotas.set(key, byResource);
+		}
+		byResource.set(resource, { ...quota, updatedAt: Date.now() });
+	}
+}
+
+/**
+ * Reads `GITHUB_BUDGET_RESERVE`: the share of each budget held back, in percent.
+ *
+ * @returns The configured percentage, or 2 if unset or invalid
+ */
+export function budgetReservePercent(): number {
+	return envNumber('GITHUB_BUDGET_RESERVE', 2);
+}
+
+/**
+ * Requests or points held back from a budget of `limit`.
+ */
+function reserveFor(limit: number): number {
+	return Math.max(1, Math.ceil(limit * budgetReservePercent() / 100));
+}
+
+let tracker: RateLimitTracker | null = null;
+
+/**
+ * Returns the process-wide tracker.
+ *
+ * @returns The tracker shared by every upstream call
+ */
+export function getRateLimitTracker(): RateLimitTracker {
+	tracker ??= new RateLimitTracker();
+	return tracker;
+}
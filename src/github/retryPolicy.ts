@@ -0,0 +1,110 @@
+/**
+ * Upstream Retry Policies
+ *
+ * How `fetchWithRetry` retries a GitHub call: how often, how long it backs off
+ * between attempts, how long a wait GitHub may ask for (`Retry-After`,
+ * `X-RateLimit-Reset`) before the call gives up instead, and how long each
+ * attempt and the call as a whole may take. Call sites start from the defaults
+ * and override what they need, e.g. best-effort lookups don't retry at all.
+ *
+ * Defaults come from `GITHUB_MAX_RETRIES`, `GITHUB_RETRY_MAX_WAIT_MS`,
+ * `GITHUB_REQUEST_TIMEOUT_MS` and `GITHUB_RETRY_TIMEOUT_MS`, read on first use.
+ */
+import { envNumber } from '../utils/env';
+
+export interface RetryPolicy {
+	/** Retries after the first attempt */
+	maxRetries: number;
+	/** Backoff before the first retry (ms); doubles with every retry */
+	baseDelayMs: number;
+	/** Upper bound of a single backoff (ms) */
+	maxDelayMs: number;
+	/** Longest rate limit wait that is still sat out and retried (ms) */
+	maxRateLimitWaitMs: number;
+	/** Time limit of one attempt, including reading the response body (ms) */
+	attemptTimeoutMs: number;
+	/** Time limit of the whole call, attempts and waits included (ms) */
+	totalTimeoutMs: number;
+}
+
+/** GitHub asks clients hit by a secondary rate limit without a hint to wait at least a minute. */
+const SECONDARY_LIMIT_WAIT_MS = 60_000;
+
+let defaults: RetryPolicy | null = null;
+
+/**
+ * Builds the policy for a call site.
+ *
+ * @param overrides - Limits that differ from the configured defaults
+ * @returns The defaults with `overrides` applied
+ */
+export function retryPolicy(overrides: Partial<RetryPolicy> = {}): RetryPolicy {
+	defaults ??= {
+		maxRetries: envNumber('GITHUB_MAX_RETRIES', 2),
+		baseDelayMs: 500,
+		maxDelayMs: 8_000,
+		maxRateLimitWaitMs: envNumber('GITHUB_RETRY_MAX_WAIT_MS', 10_000),
+		attemptTimeoutMs: envNumber('GITHUB_REQUEST_TIMEOUT_MS', 10_000),
+		totalTimeoutMs: envNumber('GITHUB_RETRY_TIMEOUT_MS', 25_000),
+	};
+	return { ...defaults, ...overrides };
+}
+
+/**
+ * Picks the backoff before a retry. The delay doubles with every retry up to
+ * `maxDelayMs`; half of it is randomized so callers that failed together don't
+ * retry in lockstep.
+ *
+ * @param policy - Policy of the call
+ * @param retry - Retries made so far
+ * @returns Delay in milliseconds
+ */
+export function backoffDelay(policy: RetryPolicy, retry: number): number {
+	const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** retry);
+	return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+}
+
+/**
+ * Tells rate limit refusals apart from other 403s (e.g. a resource the token can't see).
+ *
+ * @param res - GitHub's response
+ * @returns True for 429, and for 403 with no quota left or a `Retry-After` (secondary limits)
+ */
+export function isRateLimited(res: Response): boolean {
+	if (res.status === 429) return true;
+	return res.status === 403 && (res.headers.get('X-RateLimit-Remaining') === '0' || res.headers.has('Retry-After'));
+}
+
+/**
+ * Reads how long GitHub wants us to wait after refusing a request: `Retry-After`
+ * (seconds or an HTTP date), else the quota reset if none is left, else the
+ * minute GitHub recommends for secondary limits.
+ *
+ * @param res - A rate limited response
+ * @returns Milliseconds to wait
+ */
+export function rateLimitWaitMs(res: Response): number {
+	const retryAfter = res.headers.get('Retry-After')?.trim();
+	if (retryAfter) {
+		const seconds = Number(retryAfter);
+		if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+		const date = Date.parse(retryAfter);
+		if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+	}
+
+	const reset = Number(res.headers.get('X-RateLimit-Reset'));
+	if (res.headers.get('X-RateLimit-Remaining') === '0' && Number.isFinite(reset)) {
+		return Math.max(0, reset * 1000 - Date.now());
+	}
+	return SECONDARY_LIMIT_WAIT_MS;
+}
+
+/**
+ * `rateLimitWaitMs` in whole seconds, for `Retry-After` on our own responses.
+ *
+ * @param res - A rate limited response
+ * @returns Seconds to wait (at least 1)
+ */
+export function retryAfterSeconds(res: Response): number {
+	return Math.max(1, Math.ceil(rateLimitWaitMs(res) / 1000));
+}
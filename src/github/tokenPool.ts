@@ -0,0 +1,166 @@
+/**
+ * GitHub Token Pool
+ *
+ * Spreads upstream requests over several personal access tokens so their hourly
+ * quotas add up. Every request goes to the token with the most quota left for
+ * its resource (`core`, `search` or `graphql`), as recorded by the rate limit
+ * tracker. A token GitHub rejects with `401` is taken out of rotation for the
+ * life of the process.
+ *
+ * Tokens come from `GITHUB_TOKENS` (comma- or whitespace-separated) plus the
+ * single `GITHUB_TOKEN`, read on first use since dotenv loads after imports.
+ */
+import { createHash } from 'crypto';
+import { getRateLimitTracker } from './rateLimitTracker';
+
+interface PooledToken {
+	value: string;
+	/** Position in the pool, e.g. `token-2` — safe to log */
+	id: string;
+	/** Short hash that tells tokens apart without revealing them */
+	fingerprint: string;
+	disabledReason: string | null;
+}
+
+export interface TokenStatus {
+	id: string;
+	fingerprint: string;
+	active: boolean;
+	disabledReason?: string;
+	/** Current quota per resource; absent until the token has been used, or once it refills */
+	rateLimits: Record<string, { remaining: number; limit: number; resetAt: string }>;
+}
+
+export interface TokenPoolStatus {
+	size: number;
+	active: number;
+	tokens: TokenStatus[];
+}
+
+/** Resources requests are spread over (GitHub has others this server never uses). */
+const RATE_LIMIT_RESOURCES = ['core', 'search', 'graphql'];
+
+/**
+ * Names the rate limit resource a GitHub API URL counts against.
+ *
+ * @param url - Full URL or path, e.g. `/search/repositories?q=…`
+ * @returns `graphql`, `search` or `core`
+ */
+export function rateLimitResource(url: string): string {
+	const path = url.replace(/^https?:\/\/[^/]+/, '');
+	if (path.startsWith('/graphql')) return 'graphql';
+	if (path.startsWith('/search/')) return 'search';
+	return 'core';
+}
+
+export class TokenPool {
+	private readonly tokens: PooledToken[];
+
+	/**
+	 * @param values - Tokens in configuration order (duplicates are ignored)
+	 */
+	constructor(values: string[]) {
+		this.tokens = [...new Set(values)].map((value, i) => ({
+			value,
+			id: `token-${i + 1}`,
+			fingerprint: createHash('sha256').update(value).digest('hex').slice(0, 8),
+			disabledReason: null,
+		}));
+	}
+
+	/** Number of configured tokens, including ones taken out of rotation. */
+	get size(): number {
+		return this.tokens.length;
+	}
+
+	/**
+	 * Lists the tokens still in rotation.
+	 *
+	 * @returns Token values in configuration order
+	 */
+	activeTokens(): string[] {
+		return this.tokens.filter(t => !t.disabledReason).map(t => t.value);
+	}
+
+	/**
+	 * Picks the active token with the most quota left for a resource. Tokens not
+	 * yet used, or whose quota has reset, count as full; among exhausted tokens
+	 * the one that resets first wins.
+	 *
+	 * @param resource - Rate limit resource the request counts against
+	 * @returns The token, or null if none is configured or all were rejected
+	 */
+	acquire(resource = 'core'): string | null {
+		const now = Date.now();
+		const tracker = getRateLimitTracker();
+		let best: { token: PooledToken; remaining: number; resetAt: number } | null = null;
+
+		for (const token of this.tokens) {
+			if (token.disabledReason) continue;
+			const quota = tracker.quota(token.value, resource);
+			const remaining = quota ? quota.remaining : Number.POSITIVE_INFINITY;
+			const resetAt = quota ? quota.resetAt : now;
+			if (!best || remaining > best.remaining || (remaining === best.remaining && resetAt < best.resetAt)) {
+				best = { token, remaining, resetAt };
+			}
+		}
+		return best?.token.value ?? null;
+	}
+
+	/**
+	 * Takes a token out of rotation after GitHub rejected it with `401`.
+	 * Unknown tokens are ignored.
+	 *
+	 * @param value - Token the request was made with
+	 */
+	reject(value: string): void {
+		const token = this.tokens.find(t => t.value === value);
+		if (!token || token.disabledReason) return;
+
+		token.disabledReason = `Rejected by GitHub (401) at ${new Date().toISOString()}`;
+		const active = this.tokens.filter(t => !t.disabledReason).length;
+		console.error(`[tokens] ${token.id} (${token.fingerprint}) returned 401 — removed from rotation, ${active} left`);
+	}
+
+	/**
+	 * Describes the pool for health checks. Never includes token values.
+	 *
+	 * @returns Size, active count and per-token quotas
+	 */
+	status(): TokenPoolStatus {
+		const tracker = getRateLimitTracker();
+		return {
+			size: this.tokens.length,
+			active: this.tokens.filter(t => !t.disabledReason).length,
+			tokens: this.tokens.map(token => ({
+				id: token.id,
+				fingerprint: token.fingerprint,
+				active: !token.disabledReason,
+				...(token.disabledReason && { disabledReason: token.disabledReason }),
+				rateLimits: Object.fromEntries(RATE_LIMIT_RESOURCES.flatMap(resource => {
+					const quota = tracker.quota(token.value, resource);
+					return quota
+						? [[resource, { remaining: quota.remaining, limit: quota.limit, resetAt: new Date(quota.resetAt).toISOString() }]]
+						: [];
+				})),
+			})),
+		};
+	}
+}
+
+let pool: TokenPool | null = null;
+
+/**
+ * Returns the process-wide pool, built from `GITHUB_TOKENS` and `GITHUB_TOKEN` on first use.
+ *
+ * @returns The configured pool (possibly empty)
+ */
+export function getTokenPool(): TokenPool {
+	if (!pool) {
+		const values = `${process.env.GITHUB_TOKENS ?? ''},${process.env.GITHUB_TOKEN ?? ''}`
+			.split(/[\s,]+/)
+			.filter(Boolean);
+		pool = new TokenPool(values);
+	}
+	return pool;
+}
@@ -0,0 +1,95 @@
+/**
+ * Application Metrics
+ *
+ * Every metric `GET /metrics` exposes. Requests are recorded by the
+ * `requestMetrics` middleware, upstream calls by `fetchWithRetry`, cache lookups
+ * by the routes that read the caches; cache sizes, evictions and rate limit
+ * budgets are collected at scrape time by the GitHub router.
+ */
+import { Registry } from './registry';
+
+export const metrics = new Registry();
+
+// ─── Requests served ──────────────────────────────────────────────────────────
+
+export const httpRequests = metrics.counter(
+	'http_requests_total',
+	'Requests served, by method, route pattern and status code.',
+	['method', 'route', 'status']
+);
+
+export const httpRequestDuration = metrics.histogram(
+	'http_request_duration_seconds',
+	'Time from receiving a request to finishing its response, by method, route pattern and status code.',
+	['method', 'route', 'status'],
+	[0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+);
+
+// ─── GitHub upstream ──────────────────────────────────────────────────────────
+
+export const upstreamRequests = metrics.counter(
+	'github_upstream_requests_total',
+	'Attempts made to GitHub, by endpoint class and response status (timeout or error when none arrived).',
+	['class', 'status']
+);
+
+export const upstreamRequestDuration = metrics.histogram(
+	'github_upstream_request_duration_seconds',
+	'Time until GitHub answered an attempt with response headers, by endpoint class.',
+	['class'],
+	[0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 25]
+);
+
+export const upstreamRetries = metrics.counter(
+	'github_upstream_retries_total',
+	'Attempts retried, by endpoint class and reason (server_error, rate_limited, timeout, network).',
+	['class', 'reason']
+);
+
+export const rateLimitRemaining = metrics.gauge(
+	'github_rate_limit_remaining',
+	'Requests (points for graphql) left in the GitHub rate limit, summed over the pooled tokens.',
+	['resource']
+);
+
+export const rateLimitLimit = metrics.gauge(
+	'github_rate_limit_limit',
+	'Size of the GitHub rate limit, summed over the pooled tokens.',
+	['resource']
+);
+
+// ─── Caches ───────────────────────────────────────────────────────────────────
+
+export const cacheLookups = metrics.counter(
+	'github_api_cache_lookups_total',
+	'Cache lookups, by cache and result (hit, stale, miss). Forced refreshes are not lookups.',
+	['cache', 'result']
+);
+
+export const cacheEvictions = metrics.counter(
+	'github_api_cache_evictions_total',
+	'Entries evicted to stay within capacity, by cache (not reported for the redis backend).',
+	['cache']
+);
+
+export const cacheEntries = metrics.gauge(
+	'github_api_cache_entries',
+	'Entries held, by cache (not reported for the redis backend).',
+	['cache']
+);
+
+/** First path segments reported as their own endpoint class; the rest are `other`. */
+const ENDPOINT_CLASSES = new Set(['users', 'user', 'repos', 'orgs', 'search', 'gists', 'rate_limit']);
+
+/**
+ * Groups a GitHub URL into a low-cardinality label: `graphql`, or the first
+ * segment of the REST path (`users`, `repos`, ...).
+ *
+ * @param url - URL of the upstream call
+ * @returns The endpoint class
+ */
+export function upstreamEndpointClass(url: string): string {
+	const segment = new URL(url).pathname.split('/')[1] ?? '';
+	if (segment === 'graphql') return 'graphql';
+	return ENDPOINT_CLASSES.has(segment) ? segment : 'other';
+}
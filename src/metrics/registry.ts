@@ -0,0 +1,219 @@
+/**
+ * Prometheus Metrics Registry
+ *
+ * Minimal counters, gauges and histograms rendered in the Prometheus text
+ * exposition format (version 0.0.4). Series are kept per process, so each
+ * instance (each warm function on Netlify) reports its own; Prometheus sums
+ * them across scrape targets.
+ *
+ * Values that already live elsewhere (cache counters, rate limit budgets) are
+ * copied in by collectors registered with `onCollect`, which run right before
+ * every render.
+ */
+
+export type Labels = Record<string, string | number>;
+
+/** `Content-Type` of the rendered exposition. */
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+type MetricType = 'counter' | 'gauge' | 'histogram';
+
+/**
+ * A named metric and its series, one per combination of label values.
+ */
+abstract class Metric<S> {
+	abstract readonly type: MetricType;
+	protected readonly series = new Map<string, { labels: Labels; value: S }>();
+
+	/**
+	 * @param name - Metric name, e.g. `http_requests_total`
+	 * @param help - One-line description
+	 * @param labelNames - Labels every series carries, in output order
+	 */
+	constructor(readonly name: string, readonly help: string, readonly labelNames: readonly string[] = []) { }
+
+	/** Drops every series, e.g. before a collector reports the current set. */
+	reset(): void {
+		this.series.clear();
+	}
+
+	/** Renders the samples of every series, without the HELP and TYPE lines. */
+	abstract samples(): string[];
+
+	protected entry(labels: Labels, initial: () => S): { labels: Labels; value: S } {
+		const key = this.labelNames.map(name => String(labels[name] ?? '')).join('\u0000');
+		let entry = this.series.get(key);
+		if (!entry) {
+			entry = { labels, value: initial() };
+			this.series.set(key, entry);
+		}
+		return entry;
+	}
+
+	protected sample(suffix: string, labels: Labels, value: number, extra?: [string, string]): string {
+		const pairs = this.labelNames.map(name => `${name}="${escapeLabel(String(labels[name] ?? ''))}"`);
+		if (extra) pairs.push(`${extra[0]}="${extra[1]}"`);
+		return `${this.name}${suffix}${pairs.length > 0 ? `{${pairs.join(',')}}` : ''} ${formatValue(value)}`;
+	}
+}
+
+/** A value that only goes up (or resets to zero when the process restarts). */
+export class Counter extends Metric<number> {
+	readonly type = 'counter';
+
+	/**
+	 * @param labels - Label values of the series
+	 * @param amount - Non-negative increment
+	 */
+	inc(labels: Labels = {}, amount = 1): void {
+		this.entry(labels, () => 0).value += amount;
+	}
+
+	/**
+	 * Mirrors a total counted elsewhere, for collectors.
+	 *
+	 * @param labels - Label values of the series
+	 * @param total - The current total
+	 */
+	set(labels: Labels, total: number): void {
+		this.entry(labels, () => 0).value = total;
+	}
+
+	samples(): string[] {
+		return [...this.series.values()].map(s => this.sample('', s.labels, s.value));
+	}
+}
+
+/** A value that goes up and down. */
+export class Gauge extends Metric<number> {
+	readonly type = 'gauge';
+
+	/**
+	 * @param labels - Label values of the series
+	 * @param value - The current value
+	 */
+	set(labels: Labels, value: number): void {
+		this.entry(labels, () => 0).value = value;
+	}
+
+	samples(): string[] {
+		return [...this.series.values()].map(s => this.sample('', s.labels, s.value));
+	}
+}
+
+interface HistogramSeries {
+	/** Observations per bucket (not cumulative) */
+	counts: number[];
+	sum: number;
+	count: number;
+}
+
+/** Observations (e.g. durations) counted into buckets. */
+export class Histogram extends Metric<HistogramSeries> {
+	readonly type = 'histogram';
+	private readonly buckets: number[];
+
+	/**
+	 * @param name - Metric name, e.g. `http_request_duration_seconds`
+	 * @param help - One-line description
+	 * @param labelNames - Labels every series carries
+	 * @param buckets - Upper bounds of the buckets; `+Inf` is added
+	 */
+	constructor(name: string, help: string, labelNames: readonly string[], buckets: number[]) {
+		super(name, help, labelNames);
+		this.buckets = [...buckets].sort((a, b) => a - b);
+	}
+
+	/**
+	 * @param labels - Label values of the series
+	 * @param value - The observation, e.g. seconds taken
+	 */
+	observe(labels: Labels, value: number): void {
+		const series = this.entry(labels, () => ({ counts: this.buckets.map(() => 0), sum: 0, count: 0 }));
+		const index = this.buckets.findIndex(bound => value <= bound);
+		if (index >= 0) series.value.counts[index] = (series.value.counts[index] ?? 0) + 1;
+		series.value.sum += value;
+		series.value.count++;
+	}
+
+	samples(): string[] {
+		const lines: string[] = [];
+		for (const { labels, value } of this.series.values()) {
+			let cumulative = 0;
+			this.buckets.forEach((bound, i) => {
+				cumulative += value.counts[i] ?? 0;
+				lines.push(this.sample('_bucket', labels, cumulative, ['le', formatValue(bound)]));
+			});
+			lines.push(this.sample('_bucket', labels, value.count, ['le', '+Inf']));
+			lines.push(this.sample('_sum', labels, value.sum));
+			lines.push(this.sample('_count', labels, value.count));
+		}
+		return lines;
+	}
+}
+
+export class Registry {
+	private readonly metrics: Array<Counter | Gauge | Histogram> = [];
+	private readonly collectors: Array<() => void | Promise<void>> = [];
+
+	counter(name: string, help: string, labelNames: readonly string[] = []): Counter {
+		return this.add(new Counter(name, help, labelNames));
+	}
+
+	gauge(name: string, help: string, labelNames: readonly string[] = []): Gauge {
+		return this.add(new Gauge(name, help, labelNames));
+	}
+
+	histogram(name: string, help: string, labelNames: readonly string[], buckets: number[]): Histogram {
+		return this.add(new Histogram(name, help, labelNames, buckets));
+	}
+
+	/**
+	 * Registers a callback that refreshes metrics right before each render.
+	 * A collector that fails is logged and skipped; the others still run.
+	 *
+	 * @param collector - Copies current values into gauges or counters
+	 */
+	onCollect(collector: () => void | Promise<void>): void {
+		this.collectors.push(collector);
+	}
+
+	/**
+	 * Runs the collectors and renders every metric.
+	 *
+	 * @returns The exposition text
+	 */
+	async render(): Promise<string> {
+		for (const collector of this.collectors) {
+			try {
+				await collector();
+			} catch (err) {
+				console.warn(`[metrics] collector failed: ${err instanceof Error ? err.message : String(err)}`);
+			}
+		}
+
+		const lines: string[] = [];
+		for (const metric of this.metrics) {
+			lines.push(`# HELP ${metric.name} ${metric.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`);
+			lines.push(`# TYPE ${metric.name} ${metric.type}`);
+			lines.push(...metric.samples());
+		}
+		return `${lines.join('\n')}\n`;
+	}
+
+	private add<M extends Counter | Gauge | Histogram>(metric: M): M {
+		if (this.metrics.some(m => m.name === metric.name)) throw new Error(`Metric ${metric.name} is already registered`);
+		this.metrics.push(metric);
+		return metric;
+	}
+}
+
+function escapeLabel(value: string): string {
+	return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatValue(value: number): string {
+	if (Number.isNaN(value)) return 'NaN';
+	if (!Number.isFinite(value)) return value > 0 ? '+Inf' : '-Inf';
+	return String(value);
+}
@@ -0,0 +1,154 @@
+/**
+ * Admin authentication middleware.
+ * Guards cache administration with `ADMIN_TOKEN`, sent either as a bearer token
+ * or used as the key of an HMAC-signed request (so the token never travels).
+ */
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { AppError } from '../errors';
+
+/** How far a signed request's timestamp may be from the server clock. */
+const SIGNATURE_MAX_SKEW_SECONDS = 300;
+
+/** Outcome of checking a request's admin credentials. */
+export type AdminCheck =
+	| { outcome: 'granted'; method: 'bearer' | 'hmac' | 'open' }
+	| { outcome: 'anonymous' }
+	| { outcome: 'denied'; status: 401 | 403; code: string; error: string };
+
+const DISABLED_ERROR = 'Admin access is disabled: ADMIN_TOKEN is not configured';
+
+let warnedOpen = false;
+
+/**
+ * Compares two secrets in constant time, regardless of their lengths.
+ */
+function safeEqual(a: string, b: string): boolean {
+	const digest = (value: string) => createHash('sha256').update(value).digest();
+	return timingSafeEqual(digest(a), digest(b));
+}
+
+/**
+ * Path (plus query string) a request signature covers, relative to the host:
+ * the same value locally and behind the Netlify function.
+ */
+function signedPath(req: Request): string {
+	const queryStart = req.originalUrl.indexOf('?');
+	return `${req.baseUrl}${req.path}${queryStart >= 0 ? req.originalUrl.slice(queryStart) : ''}`;
+}
+
+/**
+ * Computes the `X-Admin-Signature` value for a request.
+ *
+ * @param secret - The shared `ADMIN_TOKEN`
+ * @param timestamp - Unix time in seconds, also sent as `X-Admin-Timestamp`
+ * @param method - HTTP method, e.g. `DELETE`
+ * @param path - Request path and query, e.g. `/api/github/v2/cache/octocat`
+ * @returns `sha256=<hex HMAC of "<timestamp>\n<METHOD>\n<path>">`
+ */
+export function signAdminRequest(secret: string, timestamp: string, method: string, path: string): string {
+	const mac = createHmac('sha256', secret).update(`${timestamp}\n${method.toUpperCase()}\n${path}`).digest('hex');
+	return `sha256=${mac}`;
+}
+
+/**
+ * Checks a request's admin credentials without responding.
+ * When `ADMIN_TOKEN` is unset, admin access is disabled, unless
+ * `ADMIN_AUTH_DISABLED=true` explicitly opens it (for local development).
+ *
+ * @param req - Express request object
+ * @returns Whether admin access is granted, no credentials were sent, or why they were refused
+ */
+export function checkAdmin(req: Request): AdminCheck {
+	const secret = process.env.ADMIN_TOKEN?.trim();
+	const signature = req.get('X-Admin-Signature');
+	const authorization = req.get('Authorization');
+
+	if (!secret) {
+		if (process.env.ADMIN_AUTH_DISABLED?.trim() === 'true') {
+			if (!warnedOpen) {
+				console.warn('[admin] ADMIN_AUTH_DISABLED=true and no ADMIN_TOKEN — admin routes are open to anyone');
+				warnedOpen = true;
+			}
+			return { outcome: 'granted', method: 'open' };
+		}
+		return signature || authorization
+			? { outcome: 'denied', status: 403, code: 'ADMIN_DISABLED', error: DISABLED_ERROR }
+			: { outcome: 'anonymous' };
+	}
+
+	if (signature) {
+		const timestamp = req.get('X-Admin-Timestamp') ?? '';
+		if (!/^\d+$/.test(timestamp)) {
+			return { outcome: 'denied', status: 401, code: 'ADMIN_AUTH_INVALID', error: 'X-Admin-Timestamp must be a Unix timestamp in seconds' };
+		}
+		if (Math.abs(Date.now() / 1000 - Number(timestamp)) > SIGNATURE_MAX_SKEW_SECONDS) {
+			return { outcome: 'denied', status: 401, code: 'ADMIN_AUTH_INVALID', error: 'Signature expired: X-Admin-Timestamp is more than 5 minutes from server time' };
+		}
+		return safeEqual(signature, signAdminRequest(secret, timestamp, req.method, signedPath(req)))
+			? { outcome: 'granted', method: 'hmac' }
+			: { outcome: 'denied', status: 403, code: 'ADMIN_FORBIDDEN', error: 'Invalid admin signature' };
+	}
+
+	if (authorization) {
+		const token = /^Bearer\s+(.+)$/i.exec(authorization)?.[1]?.trim();
+		if (!token) {
+			return { outcome: 'denied', status: 401, code: 'ADMIN_AUTH_INVALID', error: 'Authorization header must use the Bearer scheme' };
+		}
+		return safeEqual(token, secret)
+			? { outcome: 'granted', method: 'bearer' }
+			: { outcome: 'denied', status: 403, code: 'ADMIN_FORBIDDEN', error: 'Invalid admin token' };
+	}
+
+	return { outcome: 'anonymous' };
+}
+
+/**
+ * Passes the 401/403 error for a request that isn't granted admin access to the error handler.
+ */
+function refuse(req: Request, res: Response, next: NextFunction, check: Exclude<AdminCheck, { outcome: 'granted' }>): void {
+	if (check.outcome === 'anonymous') {
+		res.setHeader('WWW-Authenticate', 'Bearer realm="admin"');
+		return next(new AppError(401, 'ADMIN_AUTH_REQUIRED', 'Admin credentials required', {
+			details: { hint: 'Send Authorization: Bearer <ADMIN_TOKEN>, or X-Admin-Timestamp and X-Admin-Signature' },
+		}));
+	}
+
+	console.warn(`[admin] ${check.status} ${req.method} ${req.originalUrl}: ${check.error}`);
+	if (check.status === 401) res.setHeader('WWW-Authenticate', 'Bearer realm="admin", error="invalid_token"');
+	next(new AppError(check.status, check.code, check.error));
+}
+
+/**
+ * Express middleware for routes that require admin access.
+ * Responds 401 without (or with malformed/expired) credentials and 403 with wrong ones.
+ *
+ * @param req - Express request object
+ * @param res - Express response object
+ * @param next - Express next function to continue middleware chain
+ */
+export const requireAdmin = (req: Request, res: Response, next: NextFunction) => {
+	const check = checkAdmin(req);
+	if (check.outcome === 'granted') return next();
+	// With no token configured, no credentials could ever succeed
+	if (check.outcome === 'anonymous' && !process.env.ADMIN_TOKEN?.trim()) {
+		return refuse(req, res, next, { outcome: 'denied', status: 403, code: 'ADMIN_DISABLED', error: DISABLED_ERROR });
+	}
+	refuse(req, res, next, check);
+};
+
+/**
+ * Express middleware for routes that show extra detail to admins.
+ * Anonymous requests pass through; sent credentials must be valid.
+ * Sets `res.locals.isAdmin` for the route handler.
+ *
+ * @param req - Express request object
+ * @param res - Express response object
+ * @param next - Express next function to continue middleware chain
+ */
+export const optionalAdmin = (req: Request, res: Response, next: NextFunction) => {
+	const check = checkAdmin(req);
+	if (check.outcome === 'denied') return refuse(req, res, next, check);
+	res.locals.isAdmin = check.outcome === 'granted';
+	next();
+};
@@ -1,49 +1,52 @@
 /**
  * Global error handler middleware for Express application.
- * Catches all unhandled errors and provides consistent error responses.
+ * Catches all unhandled errors and responds with the shared error envelope.
  */
 import { Request, Response, NextFunction } from 'express';
+import { errorEnvelope, toAppError } from '../errors';
 
 /**
  * Express error handling middleware.
  * Must be the last middleware in the chain to catch all errors.
+ * Maps any error to `{ code, message, requestId, retryAfter?, details? }`
+ * with the error's status, setting `Retry-After` when a retry hint is known.
  *
- * @param error - The error object that was thrown
+ * @param error - The error that was thrown or passed to `next`
  * @param req - Express request object
  * @param res - Express response object
  * @param next - Express next function (required for error middleware signature)
  */
 export const errorHandler = (
-	error: Error,
+	error: unknown,
 	req: Request,
 	res: Response,
-	_next: NextFunction
+	next: NextFunction
 ) => {
-	// Log comprehensive error information for debugging
-	console.error('Unhandled error occurred:', {
-		message: error.message,
-		stack: error.stack,
-		url: req.url,
-		method: req.method,
-		userAgent: req.get('User-Agent'),
-		ip: req.ip,
-		timestamp: new Date().toISOString()
-	});
+	// Too late for an error body once streaming started; let Express close the connection
+	if (res.headersSent) return next(error);
 
-	// Determine if we should expose detailed error information
-	const isDevelopment = process.env.NODE_ENV !== 'production';
+	const appError = toAppError(error);
+	const requestId = typeof res.locals.requestId === 'string' ? res.locals.requestId : req.get('X-Request-Id') ?? 'unknown';
 
-	// Send appropriate error response based on environment
-	res.status(500).json({
-		error: 'Internal server error',
-		// Only include sensitive details in development
-		...(isDevelopment && {
-			details: error.message,
-			stack: error.stack,
+	if (appError.status >= 500) {
+		// Log comprehensive error information for debugging
+		const cause = error instanceof Error ? error : appError;
+		console.error('Unhandled error occurred:', {
+			requestId,
+			code: appError.code,
+			message: cause.message,
+			stack: cause.stack,
 			url: req.url,
-			method: req.method
-		}),
-		timestamp: new Date().toISOString(),
-		requestId: req.headers['x-request-id'] || 'unknown'
-	});
+			method: req.method,
+			userAgent: req.get('User-Agent'),
+			ip: req.ip,
+			timestamp: new Date().toISOString()
+		});
+	} else {
+		console.warn(`[error] ${appError.status} ${appError.code} ${req.method} ${req.originalUrl} (${requestId}): ${appError.message}`);
+	}
+
+	res.setHeader('Cache-Control', 'no-store');
+	if (appError.retryAfter !== undefined) res.setHeader('Retry-After', appError.retryAfter);
+	res.status(appError.status).json(errorEnvelope(appError, requestId));
 };
@@ -0,0 +1,58 @@
+/**
+ * Metrics middleware.
+ * Records every request for Prometheus and serves the `GET /metrics` exposition.
+ */
+import { Request, Response, NextFunction } from 'express';
+import { httpRequestDuration, httpRequests, metrics } from '../metrics/appMetrics';
+import { PROMETHEUS_CONTENT_TYPE } from '../metrics/registry';
+
+/**
+ * Labels a request by the route pattern that handled it (`/api/github/v2/stats/:username`),
+ * never by its raw URL, so usernames and paths don't each become a series.
+ * Express restores `req.baseUrl` once an error leaves a router, so the mount
+ * path is taken from the URL instead: the pattern matched its last segments.
+ *
+ * @param req - A finished request
+ * @returns The route pattern, or `unmatched` for static files and 404s
+ */
+function routeLabel(req: Request): string {
+	const pattern: unknown = req.route?.path;
+	if (typeof pattern !== 'string') return 'unmatched';
+
+	const segments = (req.originalUrl.split('?')[0] ?? '').split('/').filter(Boolean);
+	const patternSegments = pattern.split('/').filter(Boolean);
+	const mount = segments.slice(0, Math.max(0, segments.length - patternSegments.length));
+	return `/${[...mount, ...patternSegments].join('/')}`;
+}
+
+/**
+ * Express middleware that counts each request and observes its duration
+ * once the response has been sent.
+ *
+ * @param req - Express request object
+ * @param res - Express response object
+ * @param next - Express next function to continue middleware chain
+ */
+export const requestMetrics = (req: Request, res: Response, next: NextFunction) => {
+	const start = process.hrtime.bigint();
+
+	res.on('finish', () => {
+		const labels = { method: req.method, route: routeLabel(req), status: res.statusCode };
+		httpRequests.inc(labels);
+		httpRequestDuration.observe(labels, Number(process.hrtime.bigint() - start) / 1e9);
+	});
+
+	next();
+};
+
+/**
+ * `GET /metrics` handler: every metric in the Prometheus text format.
+ *
+ * @param _req - Express request object
+ * @param res - Express response object
+ */
+export const metricsEndpoint = async (_req: Request, res: Response) => {
+	const body = await metrics.render();
+	res.setHeader('Cache-Control', 'no-store');
+	res.type(PROMETHEUS_CONTENT_TYPE).send(body);
+};
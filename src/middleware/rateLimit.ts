@@ -0,0 +1,322 @@
+/**
+ * Inbound rate limiting middleware.
+ * Token buckets per client (API key or IP) and budget, so one client can't
+ * burn the shared GitHub quota. Buckets live in a pluggable store: in memory
+ * by default, or in Redis so serverless instances share them.
+ *
+ * Budgets are `<requests>/<seconds>`: the bucket holds `requests` tokens and
+ * refills completely over `seconds`. Configured lazily (dotenv loads after imports):
+ * - `RATE_LIMIT_PROXY` (default `60/60`), `RATE_LIMIT_STATS` (`120/60`),
+ *   `RATE_LIMIT_FORCE` (`5/600`); `off` disables one budget.
+ * - `RATE_LIMIT_STORE`: `memory` (default) or `redis` (uses `REDIS_URL`).
+ * - `API_KEYS`: comma-separated keys accepted in `X-API-Key`; each key gets its
+ *   own buckets instead of sharing its IP's.
+ */
+import { createHash } from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { redisClient, RespClient } from '../cache/redisStore';
+import { AppError } from '../errors';
+
+export type BudgetName = 'proxy' | 'stats' | 'force';
+
+export interface RateLimitBudget {
+	/** Bucket size: requests allowed in a burst */
+	capacity: number;
+	/** Seconds for an empty bucket to refill completely */
+	windowSeconds: number;
+}
+
+/** A bucket after a `take`. */
+export interface BucketState {
+	allowed: boolean;
+	/** Whole tokens left */
+	remaining: number;
+	/** Seconds until the bucket is full again */
+	resetSeconds: number;
+	/** Seconds until the refused request could succeed (0 when allowed) */
+	retryAfterSeconds: number;
+}
+
+export interface RateLimitStore {
+	/**
+	 * Takes `cost` tokens from a bucket if it holds enough; otherwise takes nothing.
+	 *
+	 * @param key - Bucket identity (budget and client)
+	 * @param budget - Size and refill window of the bucket
+	 * @param cost - Tokens the request needs
+	 * @returns The bucket's state after the attempt
+	 */
+	take(key: string, budget: RateLimitBudget, cost: number): Promise<BucketState>;
+}
+
+const DEFAULT_BUDGETS: Record<BudgetName, string> = {
+	proxy: '60/60',
+	stats: '120/60',
+	force: '5/600',
+};
+
+/**
+ * Derives the response fields from a bucket's token count.
+ */
+function bucketState(tokens: number, allowed: boolean, budget: RateLimitBudget, cost: number): BucketState {
+	const perSecond = budget.capacity / budget.windowSeconds;
+	return {
+		allowed,
+		remaining: Math.max(0, Math.floor(tokens)),
+		resetSeconds: Math.ceil((budget.capacity - tokens) / perSecond),
+		retryAfterSeconds: allowed ? 0 : Math.max(1, Math.ceil((cost - tokens) / perSecond)),
+	};
+}
+
+// ─── Stores ───────────────────────────────────────────────────────────────────
+
+/** Above this many buckets, full ones are dropped on the next `take`. */
+const MEMORY_STORE_SWEEP_SIZE = 10_000;
+
+/**
+ * Per-process buckets. Each serverless instance keeps its own, so limits are
+ * approximate there; use `redis` to share them.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+	private buckets = new Map<string, { tokens: number; updated: number; budget: RateLimitBudget }>();
+
+	async take(key: string, budget: RateLimitBudget, cost: number): Promise<BucketState> {
+		const now = Date.now();
+		if (this.buckets.size > MEMORY_STORE_SWEEP_SIZE) this.sweep(now);
+
+		const bucket = this.buckets.get(key) ?? { tokens: budget.capacity, updated: now, budget };
+		const refilled = (now - bucket.updated) / 1000 * (budget.capacity / budget.windowSeconds);
+		bucket.tokens = Math.min(budget.capacity, bucket.tokens + refilled);
+		bucket.updated = now;
+		bucket.budget = budget;
+
+		const allowed = bucket.tokens >= cost;
+		if (allowed) bucket.tokens -= cost;
+		this.buckets.set(key, bucket);
+		return bucketState(bucket.tokens, allowed, budget, cost);
+	}
+
+	/**
+	 * Drops buckets that have refilled completely — they hold no information.
+	 */
+	private sweep(now: number): void {
+		for (const [key, bucket] of this.buckets) {
+			const elapsed = (now - bucket.updated) / 1000;
+			if (elapsed >= bucket.budget.windowSeconds) this.buckets.delete(key);
+		}
+	}
+}
+
+/**
+ * Refills and takes atomically on the server, using the server clock so
+ * instances with skewed clocks agree. Buckets expire once they'd be full.
+ */
+const TAKE_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local perMs = capacity / (tonumber(ARGV[2]) * 1000)
+local cost = tonumber(ARGV[3])
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local bucket = redis.call('HMGET', KEYS[1], 'tokens', 'updated')
+local tokens = tonumber(bucket[1]) or capacity
+local updated = tonumber(bucket[2]) or now
+tokens = math.min(capacity, tokens + math.max(0, now - updated) * perMs)
+local allowed = 0
+if tokens >= cost then
+	tokens = tokens - cost
+	allowed = 1
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updated', tostring(now))
+redis.call('PEXPIRE', KEYS[1], math.ceil((capacity - tokens) / perMs) + 1000)
+return { allowed, tostring(tokens) }
+`;
+
+/**
+ * Buckets shared through a Redis-protocol server (the one in `REDIS_URL`).
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+	private readonly client: RespClient;
+	private readonly prefix: string;
+
+	/**
+	 * @param url - `redis://` or `rediss://` URL
+	 */
+	constructor(url: string) {
+		this.client = redisClient(url);
+		this.prefix = `${process.env.REDIS_KEY_PREFIX ?? 'gh-api:'}ratelimit:`;
+	}
+
+	async take(key: string, budget: RateLimitBudget, cost: number): Promise<BucketState> {
+		const reply = await this.client.command(
+			'EVAL', TAKE_SCRIPT, 1, this.prefix + key,
+			budget.capacity, budget.windowSeconds, cost
+		);
+		if (!Array.isArray(reply)) throw new Error('Unexpected rate limit script reply');
+		const [allowed, tokens] = reply;
+		return bucketState(Number(tokens), allowed === 1, budget, cost);
+	}
+}
+
+// ─── Configuration ────────────────────────────────────────────────────────────
+
+let activeStore: RateLimitStore | null = null;
+
+/**
+ * Returns the process-wide store, chosen by `RATE_LIMIT_STORE` on first use.
+ *
+ * @returns The configured store
+ */
+export function getRateLimitStore(): RateLimitStore {
+	if (!activeStore) {
+		const kind = process.env.RATE_LIMIT_STORE?.trim().toLowerCase() || 'memory';
+		if (kind === 'redis') {
+			activeStore = new RedisRateLimitStore(process.env.REDIS_URL?.trim() || 'redis://127.0.0.1:6379');
+		} else {
+			if (kind !== 'memory') console.warn(`[ratelimit] unknown RATE_LIMIT_STORE "${kind}" — using memory`);
+			activeStore = new MemoryRateLimitStore();
+		}
+	}
+	return activeStore;
+}
+
+/**
+ * Replaces the store, e.g. with a custom implementation in a serverless entry point.
+ *
+ * @param store - Store to use for every limiter
+ */
+export function setRateLimitStore(store: RateLimitStore): void {
+	activeStore = store;
+}
+
+/**
+ * Parses a `<requests>/<seconds>` budget.
+ *
+ * @param value - Configured value
+ * @returns The budget, or null if disabled with `off`
+ * @throws {Error} If the value is malformed
+ */
+export function parseBudget(value: string): RateLimitBudget | null {
+	const trimmed = value.trim().toLowerCase();
+	if (trimmed === 'off') return null;
+	const match = /^(\d+)\s*\/\s*(\d+)$/.exec(trimmed);
+	const capacity = Number(match?.[1]);
+	const windowSeconds = Number(match?.[2]);
+	if (!match || capacity < 1 || windowSeconds < 1) {
+		throw new Error(`Invalid rate limit budget "${value}": expected <requests>/<seconds> or off`);
+	}
+	return { capacity, windowSeconds };
+}
+
+const budgets = new Map<BudgetName, RateLimitBudget | null>();
+
+/**
+ * Reads a budget from `RATE_LIMIT_<NAME>` on first use, falling back to its
+ * default (with a warning) when the value is malformed.
+ */
+function budgetFor(name: BudgetName): RateLimitBudget | null {
+	if (!budgets.has(name)) {
+		const configured = process.env[`RATE_LIMIT_${name.toUpperCase()}`];
+		let budget: RateLimitBudget | null;
+		try {
+			budget = parseBudget(configured ?? DEFAULT_BUDGETS[name]);
+		} catch (err) {
+			console.warn(`[ratelimit] ${err instanceof Error ? err.message : String(err)} — using ${DEFAULT_BUDGETS[name]}`);
+			budget = parseBudget(DEFAULT_BUDGETS[name]);
+		}
+		budgets.set(name, budget);
+	}
+	return budgets.get(name) ?? null;
+}
+
+/**
+ * Reads `TRUST_PROXY` for Express's `trust proxy` setting, which decides where
+ * `req.ip` (and so the rate limit client) comes from. A hop count trusts that
+ * many proxies from the right of `X-Forwarded-For`; `true` trusts the leftmost
+ * entry, which clients can forge, so prefer the exact hop count.
+ *
+ * @param fallback - Setting when `TRUST_PROXY` is unset or invalid
+ * @returns The hop count, or whether to trust every proxy
+ */
+export function trustProxySetting(fallback: number | boolean): number | boolean {
+	const raw = process.env.TRUST_PROXY?.trim();
+	if (!raw) return fallback;
+	if (/^\d+$/.test(raw)) return Number(raw);
+	return raw === 'true' ? true : raw === 'false' ? false : fallback;
+}
+
+/**
+ * Identifies the client a request counts against.
+ *
+ * @returns `key:<hash>` for a known API key, `ip:<address>` otherwise, or null for an unknown key
+ */
+function clientId(req: Request): string | null {
+	const apiKey = req.get('X-API-Key')?.trim();
+	if (apiKey) {
+		const known = (process.env.API_KEYS ?? '').split(',').map(k => k.trim()).filter(Boolean);
+		if (!known.includes(apiKey)) return null;
+		// Hashed so keys never show up in the store
+		return `key:${createHash('sha256').update(apiKey).digest('hex').slice(0, 16)}`;
+	}
+	return `ip:${req.ip ?? req.socket.remoteAddress ?? 'unknown'}`;
+}
+
+// ─── Middleware ───────────────────────────────────────────────────────────────
+
+export interface RateLimitOptions {
+	/** Tokens a request takes (default 1), e.g. the number of items in a batch */
+	cost?: (req: Request) => number;
+	/** Only count requests matching this (default: all) */
+	when?: (req: Request) => boolean;
+}
+
+/**
+ * Creates middleware that charges requests against one budget.
+ * Sets `RateLimit-Limit`, `RateLimit-Remaining`, `RateLimit-Reset` and
+ * `RateLimit-Policy` on every counted response (for the binding budget when
+ * several charge the same request), and answers `429` with `Retry-After` once
+ * the bucket is empty. If the store fails, requests are let through.
+ *
+ * @param name - Budget to charge
+ * @param options - Per-request cost and filter
+ * @returns Express middleware
+ */
+export function rateLimit(name: BudgetName, options: RateLimitOptions = {}) {
+	return async (req: Request, res: Response, next: NextFunction) => {
+		const budget = budgetFor(name);
+		if (!budget || (options.when && !options.when(req))) return next();
+
+		const client = clientId(req);
+		if (!client) {
+			return next(new AppError(401, 'UNKNOWN_API_KEY', 'Unknown API key', {
+				details: { hint: 'Omit X-API-Key to be limited by IP address' },
+			}));
+		}
+
+		// Capped at the bucket size so an oversized request can still succeed from a full bucket
+		const cost = Math.min(budget.capacity, Math.max(1, options.cost?.(req) ?? 1));
+		let state: BucketState;
+		try {
+			state = await getRateLimitStore().take(`${name}:${client}`, budget, cost);
+		} catch (err) {
+			console.error(`[ratelimit] store error, allowing request: ${err instanceof Error ? err.message : String(err)}`);
+			return next();
+		}
+
+		// With several limiters on a route, the headers describe the one closest to refusing
+		const previous: unknown = res.locals.rateLimitRemaining;
+		if (!state.allowed || typeof previous !== 'number' || state.remaining < previous) {
+			res.locals.rateLimitRemaining = state.remaining;
+			res.setHeader('RateLimit-Limit', budget.capacity);
+			res.setHeader('RateLimit-Remaining', state.remaining);
+			res.setHeader('RateLimit-Reset', state.resetSeconds);
+			res.setHeader('RateLimit-Policy', `${budget.capacity};w=${budget.windowSeconds};name="${name}"`);
+		}
+		if (state.allowed) return next();
+
+		console.warn(`[ratelimit] ${name} budget exhausted for ${client}`);
+		next(new AppError(429, 'RATE_LIMITED', `Rate limit exceeded for ${name} requests`, {
+			retryAfter: state.retryAfterSeconds,
+			details: { limit: `${budget.capacity} per ${budget.windowSeconds}s` },
+		}));
+	};
+}
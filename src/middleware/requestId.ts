@@ -0,0 +1,23 @@
+/**
+ * Request ID middleware.
+ * Gives every request an ID for correlating error responses with server logs.
+ */
+import { randomUUID } from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+
+/**
+ * Express middleware that assigns `res.locals.requestId` and echoes it in
+ * `X-Request-Id`. Reuses a well-formed incoming `X-Request-Id` (or Netlify's
+ * `X-Nf-Request-Id`), otherwise generates a UUID.
+ *
+ * @param req - Express request object
+ * @param res - Express response object
+ * @param next - Express next function to continue middleware chain
+ */
+export const requestId = (req: Request, res: Response, next: NextFunction) => {
+	const incoming = req.get('X-Request-Id') ?? req.get('X-Nf-Request-Id');
+	const id = incoming && /^[\w.:-]{1,128}$/.test(incoming) ? incoming : randomUUID();
+	res.locals.requestId = id;
+	res.setHeader('X-Request-Id', id);
+	next();
+};
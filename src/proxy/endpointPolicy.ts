@@ -0,0 +1,252 @@
+/**
+ * REST Proxy Endpoint Policy
+ *
+ * Decides which GitHub paths the generic `/v2` proxy may forward. Requests are
+ * sent with the server's `GITHUB_TOKEN`, so token-scoped endpoints (`/user`,
+ * `/notifications`, …) are denied by default.
+ *
+ * Rules:
+ * - Globs: `*` matches within one path segment, `**` across segments, and a
+ *   trailing `/**` also matches the bare prefix (`/user/**` covers `/user`).
+ * - Regexes: prefixed with `re:`, e.g. `re:^/repos/[^/]+/[^/]+/traffic`.
+ * - Matching is case-insensitive and runs against the normalized path only
+ *   (never the query string).
+ * - Deny rules win. When any allow rule is configured, a path must match one.
+ *
+ * Sources (read lazily, since dotenv loads after imports):
+ * - `PROXY_POLICY_FILE`: JSON `{ "allow": [], "deny": [], "defaultDeny": true }`.
+ * - `PROXY_ALLOW` / `PROXY_DENY`: comma-separated rules, added to the file's.
+ * - `PROXY_DEFAULT_DENY=false`: drop the built-in deny list.
+ */
+
+import { readFileSync } from 'fs';
+
+/** Token-scoped or account-management endpoints denied unless explicitly disabled. */
+export const DEFAULT_DENY: readonly string[] = [
+	'/user/**',
+	'/notifications/**',
+	'/authorizations/**',
+	'/installation/**',
+	'/app/**',
+	'/gists/starred',
+	'/repos/*/*/traffic/**',
+	'/repos/*/*/actions/secrets/**',
+	'/repos/*/*/hooks/**',
+	'/orgs/*/hooks/**',
+];
+
+export interface PolicyRule {
+	/** The rule as written in the configuration */
+	source: string;
+	/** Where the rule came from: `default`, `env`, or the policy file path */
+	origin: string;
+	pattern: RegExp;
+}
+
+export interface EndpointPolicy {
+	allow: PolicyRule[];
+	deny: PolicyRule[];
+}
+
+export type PolicyDecision =
+	| { allowed: true; endpoint: string }
+	| { allowed: false; status: 400 | 403; error: string; rule?: string; origin?: string };
+
+interface PolicyFile {
+	allow?: unknown;
+	deny?: unknown;
+	defaultDeny?: unknown;
+}
+
+/** How many rounds of percent-decoding to undo before giving up on a path. */
+const MAX_DECODE_ROUNDS = 3;
+
+/**
+ * Normalizes a proxy endpoint so rules can't be sidestepped with `..`, `.`,
+ * doubled slashes, backslashes or (multiply) percent-encoded separators.
+ *
+ * @param endpoint - Raw `endpoint` value, path plus optional query string
+ * @returns `path` (decoded, for matching) and `endpoint` (re-encoded, for forwarding),
+ *          or null if the path is malformed or climbs above the root
+ */
+export function normalizeEndpoint(endpoint: string): { path: string; endpoint: string } | null {
+	const queryStart = endpoint.indexOf('?');
+	const query = queryStart >= 0 ? endpoint.slice(queryStart) : '';
+	let path = queryStart >= 0 ? endpoint.slice(0, queryStart) : endpoint;
+
+	for (let round = 0; round < MAX_DECODE_ROUNDS; round++) {
+		let decoded: string;
+		try {
+			decoded = decodeURIComponent(path);
+		} catch {
+			return null;
+		}
+		if (decoded === path) break;
+		path = decoded;
+	}
+	// Still encoded after several rounds — almost certainly an evasion attempt
+	if (/%[0-9a-f]{2}/i.test(path)) return null;
+	if ([...path].some(c => c.charCodeAt(0) < 0x20 || c.charCodeAt(0) === 0x7f)) return null;
+
+	const segments: string[] = [];
+	for (const segment of path.replace(/\\/g, '/').split('/')) {
+		if (!segment || segment === '.') continue;
+		if (segment === '..') {
+			if (segments.length === 0) return null;
+			segments.pop();
+			continue;
+		}
+		segments.push(segment);
+	}
+
+	return {
+		path: `/${segments.join('/')}`,
+		endpoint: `/${segments.map(encodeURIComponent).join('/')}${query}`,
+	};
+}
+
+/**
+ * Compiles a glob or `re:` rule into a case-insensitive RegExp.
+ *
+ * @param rule - Rule text from the configuration
+ * @returns Anchored pattern for normalized paths
+ * @throws {Error} If a `re:` rule is not a valid regular expression
+ */
+export function compileRule(rule: string): RegExp {
+	if (rule.startsWith('re:')) {
+		try {
+			return new RegExp(rule.slice(3), 'i');
+		} catch (err) {
+			if (err instanceof Error) err.message = `Invalid proxy policy rule "${rule}": ${err.message}`;
+			throw err;
+		}
+	}
+
+	const matchesPrefix = rule.endsWith('/**');
+	const glob = matchesPrefix ? rule.slice(0, -3) : rule;
+
+	let source = '';
+	for (let i = 0; i < glob.length; i++) {
+		const char = glob[i] ?? '';
+		if (char === '*' && glob[i + 1] === '*') {
+			source += '.*';
+			i++;
+		} else if (char === '*') {
+			source += '[^/]*';
+		} else if (char === '?') {
+			source += '[^/]';
+		} else {
+			source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+		}
+	}
+
+	return new RegExp(`^${source}${matchesPrefix ? '(?:/.*)?' : ''}$`, 'i');
+}
+
+/**
+ * Splits a comma-separated env value into trimmed, non-empty rules.
+ */
+function splitRules(value: string | undefined): string[] {
+	return (value ?? '').split(',').map(r => r.trim()).filter(Boolean);
+}
+
+/**
+ * Reads the rule list for one key of the policy file.
+ */
+function fileRules(file: PolicyFile, key: 'allow' | 'deny', path: string): string[] {
+	const value = file[key];
+	if (value === undefined) return [];
+	if (!Array.isArray(value) || !value.every(v => typeof v === 'string')) {
+		throw new Error(`Invalid proxy policy file ${path}: "${key}" must be an array of strings`);
+	}
+	return value;
+}
+
+/**
+ * Builds the policy from the environment and optional JSON file.
+ *
+ * @param env - Environment to read (defaults to `process.env`)
+ * @returns Compiled allow and deny rules
+ * @throws {Error} If the policy file can't be read or parsed, or a rule is invalid
+ */
+export function loadPolicy(env: NodeJS.ProcessEnv = process.env): EndpointPolicy {
+	const allow: PolicyRule[] = [];
+	const deny: PolicyRule[] = [];
+	const add = (list: PolicyRule[], rules: string[], origin: string) => {
+		for (const source of rules) list.push({ source, origin, pattern: compileRule(source) });
+	};
+
+	let defaultDeny = env.PROXY_DEFAULT_DENY?.trim().toLowerCase() !== 'false';
+
+	const filePath = env.PROXY_POLICY_FILE?.trim();
+	if (filePath) {
+		let file: PolicyFile;
+		try {
+			file = JSON.parse(readFileSync(filePath, 'utf8')) as PolicyFile;
+		} catch (err) {
+			if (err instanceof Error) err.message = `Cannot load proxy policy file ${filePath}: ${err.message}`;
+			throw err;
+		}
+		add(allow, fileRules(file, 'allow', filePath), filePath);
+		add(deny, fileRules(file, 'deny', filePath), filePath);
+		if (file.defaultDeny === false) defaultDeny = false;
+	}
+
+	add(allow, splitRules(env.PROXY_ALLOW), 'env');
+	add(deny, splitRules(env.PROXY_DENY), 'env');
+	if (defaultDeny) add(deny, [...DEFAULT_DENY], 'default');
+
+	return { allow, deny };
+}
+
+let activePolicy: EndpointPolicy | null = null;
+
+/**
+ * Returns the process-wide policy, loading it on first use.
+ *
+ * @returns The active policy
+ * @throws {Error} If the configuration is invalid (retried on the next call)
+ */
+export function getEndpointPolicy(): EndpointPolicy {
+	if (!activePolicy) {
+		activePolicy = loadPolicy();
+		console.log(`[policy] proxy rules loaded — ${activePolicy.allow.length} allow, ${activePolicy.deny.length} deny`);
+	}
+	return activePolicy;
+}
+
+/**
+ * Checks an endpoint against the policy.
+ *
+ * @param endpoint - Raw `endpoint` value from the request
+ * @param policy - Policy to apply (defaults to the active one)
+ * @returns The normalized endpoint to forward, or why it was refused
+ */
+export function evaluateEndpoint(endpoint: string, policy: EndpointPolicy = getEndpointPolicy()): PolicyDecision {
+	const normalized = normalizeEndpoint(endpoint);
+	if (!normalized) {
+		return { allowed: false, status: 400, error: 'endpoint is not a valid path' };
+	}
+
+	const denied = policy.deny.find(rule => rule.pattern.test(normalized.path));
+	if (denied) {
+		return {
+			allowed: false,
+			status: 403,
+			error: `Endpoint ${normalized.path} is blocked by proxy policy`,
+			rule: `deny ${denied.source}`,
+			origin: denied.origin,
+		};
+	}
+
+	if (policy.allow.length > 0 && !policy.allow.some(rule => rule.pattern.test(normalized.path))) {
+		return {
+			allowed: false,
+			status: 403,
+			error: `Endpoint ${normalized.path} is not on the proxy allowlist`,
+			rule: 'allowlist',
+		};
+	}
+
+	return { allowed: true, endpoint: normalized.endpoint };
+}
@@ -9,18 +9,81 @@
  * - LRU Caching: Implements a high-efficiency O(1) cache with TTL-based eviction.
  * - Parallel Execution: Utilizes Promise-based concurrency for non-blocking I/O.
  * - Accurate Metrics: Computes contribution streaks from the full 365-day calendar.
- * - Reliability: Integrated exponential-backoff retry logic for transient network failures.
+ * - Reliability: Retries with jittered backoff, honors GitHub's Retry-After, and times out hung requests.
  */
 
 import { Router, Request, Response as ExpressResponse } from 'express';
-import { LRUCache } from '../cache/lruCache';
+import { applyCacheHeaders, Freshness, sendCachedJson } from '../cache/httpCache';
+import { CacheBackend, CacheRecord, CacheStore, createCacheStore, MemoryStore } from '../cache/cacheStore';
+import { CacheStats, LRUCache } from '../cache/lruCache';
 import {
+	AppError,
+	toAppError,
+	UpstreamAuthError,
+	UpstreamError,
+	UpstreamNotFound,
+	UpstreamRateLimited,
+	UpstreamTimeout,
+	UpstreamUnavailable,
+	ValidationError,
+} from '../errors';
+import { CircuitOpenError, getCircuitBreaker } from '../github/circuitBreaker';
+import { budgetReservePercent, getRateLimitTracker, RateLimitBudgetError } from '../github/rateLimitTracker';
+import { backoffDelay, isRateLimited, rateLimitWaitMs, retryAfterSeconds, RetryPolicy, retryPolicy } from '../github/retryPolicy';
+import { getTokenPool, rateLimitResource } from '../github/tokenPool';
+import {
+	cacheEntries,
+	cacheEvictions,
+	cacheLookups,
+	metrics,
+	rateLimitLimit,
+	rateLimitRemaining,
+	upstreamEndpointClass,
+	upstreamRequestDuration,
+	upstreamRequests,
+	upstreamRetries,
+} from '../metrics/appMetrics';
+import { optionalAdmin, requireAdmin } from '../middleware/adminAuth';
+import { rateLimit } from '../middleware/rateLimit';
+import { SingleFlight } from '../cache/singleFlight';
+import { LANGUAGE_LAYOUTS, LanguagesLayout, renderLanguagesCard } from '../cards/languagesCard';
+import { heatmapTitle, renderHeatmap, resolveHeatmapScale } from '../cards/heatmap';
+import { renderStatsCard } from '../cards/statsCard';
+import { compileRule, evaluateEndpoint, PolicyDecision } from '../proxy/endpointPolicy';
+import { renderErrorCard } from '../cards/svg';
+import { CardTheme, resolveTheme } from '../cards/themes';
+import {
+	CachedResponse,
+	ContributionCalendar,
+	ContributionDay,
+	CompareEntry,
+	GitHubComparison,
+	GitHubOrgStats,
+	GitHubRepoStats,
 	GitHubStats,
 	GitHubUser,
 	GitHubEvent,
+	GraphQLAllTimeData,
+	GraphQLCalendarData,
+	GraphQLContributionLevel,
+	GraphQLEnvelope,
+	GraphQLOrgRepoNode,
+	GraphQLOrgReposPageData,
+	GraphQLOrgStatsData,
+	GraphQLPageInfo,
+	GraphQLRateLimit,
+	GraphQLRepoNode,
+	GraphQLRepoStatsData,
+	GraphQLReposPageData,
 	GraphQLResponse,
 	GitHubGQLUser,
+	LanguagePairOverlap,
+	MetricRank,
+	ProxyBatchItem,
+	ProxyResult,
 	RateLimit,
+	RepoSummary,
+	StatsRange,
 } from '../types';
 
 // ─── Constants ────────────────────────────────────────────────────────────────
@@ -30,96 +93,365 @@ const GITHUB_GQL = 'https://api.github.com/graphql';
 const USER_AGENT = 'Portfolio-Backend/3.0';
 
 const CACHE_TTL_GENERAL = 1000 * 60 * 60 * 24 * 14; // 14 days
-const CACHE_TTL_STATS = 1000 * 60 * 60 * 6;        // 6 hours
+const CACHE_STALE_GENERAL = 1000 * 60 * 60 * 24 * 7; // kept 7 more days for ETag revalidation
+const CACHE_TTL_STATS = 1000 * 60 * 60 * 6;        // 6 hours (soft — served stale and refreshed after)
+const CACHE_STALE_STATS = 1000 * 60 * 60 * 42;     // hard TTL of 48 hours
+const CACHE_TTL_CONTRIBUTIONS = 1000 * 60 * 60;    // 1 hour
+const CACHE_TTL_STATS_ALL_TIME = 1000 * 60 * 60 * 12; // 12 hours (soft)
+const CACHE_STALE_STATS_ALL_TIME = 1000 * 60 * 60 * 60; // hard TTL of 72 hours
+const CACHE_TTL_ORG_STATS = 1000 * 60 * 60 * 6;    // 6 hours (soft)
+const CACHE_STALE_ORG_STATS = 1000 * 60 * 60 * 18; // hard TTL of 24 hours
+const CACHE_TTL_REPO_STATS = 1000 * 60 * 60;       // 1 hour (soft)
+const CACHE_STALE_REPO_STATS = 1000 * 60 * 60 * 23; // hard TTL of 24 hours
 const CACHE_CAPACITY = 1_000;
+const CACHE_MAX_BYTES_GENERAL = 1024 * 1024 * 64; // 64 MB of estimated JSON
+
+/** Proxy clients get GitHub's `Retry-After` forwarded and can wait themselves, so the proxy fails fast. */
+const PROXY_RETRY: Partial<RetryPolicy> = { maxRetries: 1, maxRateLimitWaitMs: 0 };
+/** Contributor counts are an optional part of repo stats: one short attempt. */
+const CONTRIBUTORS_RETRY: Partial<RetryPolicy> = { maxRetries: 0, attemptTimeoutMs: 5_000 };
 
 // ─── Caches ───────────────────────────────────────────────────────────────────
 
-const generalCache = new LRUCache(CACHE_CAPACITY, CACHE_TTL_GENERAL);
-const statsCache = new LRUCache<GitHubStats>(200, CACHE_TTL_STATS);
+// Proxy and user-stats caches use the configured backend (`CACHE_BACKEND`); the rest stay in memory
+const generalCache = createCacheStore<CachedResponse>('general', {
+	capacity: CACHE_CAPACITY,
+	ttlMs: CACHE_TTL_GENERAL,
+	staleMs: CACHE_STALE_GENERAL,
+	maxBytes: CACHE_MAX_BYTES_GENERAL,
+});
+
+/** Expired proxy entries confirmed unchanged by a 304 instead of being refetched. */
+let proxyRevalidations = 0;
+const statsCache = createCacheStore<GitHubStats>('stats', { capacity: 200, ttlMs: CACHE_TTL_STATS, staleMs: CACHE_STALE_STATS });
+const contributionsCache = new LRUCache<ContributionCalendar>(200, CACHE_TTL_CONTRIBUTIONS);
+const allTimeStatsCache = createCacheStore<GitHubStats>('stats-all-time', {
+	capacity: 100,
+	ttlMs: CACHE_TTL_STATS_ALL_TIME,
+	staleMs: CACHE_STALE_STATS_ALL_TIME,
+});
+
+/** One in-flight stats fetch per `<cache>:<cacheKey>`, shared by requests and background refreshes. */
+const statsFlights = new SingleFlight<GitHubStats>();
+const orgStatsFlights = new SingleFlight<GitHubOrgStats>();
+const repoStatsFlights = new SingleFlight<GitHubRepoStats>();
+
+/** One in-flight upstream call per proxied path (and cache mode). */
+const proxyFlights = new SingleFlight<ProxyOutcome>();
+
+/** Last background refresh failure per `<cache>:<cacheKey>`, surfaced as a warning on stale responses. */
+const statsRefreshErrors = new Map<string, string>();
+const orgStatsCache = new MemoryStore<GitHubOrgStats>({ capacity: 100, ttlMs: CACHE_TTL_ORG_STATS, staleMs: CACHE_STALE_ORG_STATS });
+const repoStatsCache = new MemoryStore<GitHubRepoStats>({ capacity: 200, ttlMs: CACHE_TTL_REPO_STATS, staleMs: CACHE_STALE_REPO_STATS });
+
+/** Where one kind of stats is cached, and the flights its fetches share. */
+interface StatsSource<T> {
+	/** Cache name in lookup metrics and flight keys */
+	name: string;
+	/** Log prefix, e.g. `org` */
+	log: string;
+	cache: CacheStore<T>;
+	flights: SingleFlight<T>;
+	/** Soft TTL and stale window of `cache`, for HTTP caching headers */
+	freshness: (lastUpdated: number) => Freshness;
+}
+
+const STATS_SOURCE: StatsSource<GitHubStats> = {
+	name: 'stats',
+	log: 'stats',
+	cache: statsCache,
+	flights: statsFlights,
+	freshness: lastUpdated => freshness(lastUpdated, CACHE_TTL_STATS, CACHE_STALE_STATS),
+};
+const ALL_TIME_STATS_SOURCE: StatsSource<GitHubStats> = {
+	name: 'allTimeStats',
+	log: 'stats',
+	cache: allTimeStatsCache,
+	flights: statsFlights,
+	freshness: lastUpdated => freshness(lastUpdated, CACHE_TTL_STATS_ALL_TIME, CACHE_STALE_STATS_ALL_TIME),
+};
+const ORG_STATS_SOURCE: StatsSource<GitHubOrgStats> = {
+	name: 'orgStats',
+	log: 'org',
+	cache: orgStatsCache,
+	flights: orgStatsFlights,
+	freshness: lastUpdated => freshness(lastUpdated, CACHE_TTL_ORG_STATS, CACHE_STALE_ORG_STATS),
+};
+const REPO_STATS_SOURCE: StatsSource<GitHubRepoStats> = {
+	name: 'repoStats',
+	log: 'repo',
+	cache: repoStatsCache,
+	flights: repoStatsFlights,
+	freshness: lastUpdated => freshness(lastUpdated, CACHE_TTL_REPO_STATS, CACHE_STALE_REPO_STATS),
+};
 
 // Periodic cleanup of expired entries (every hour)
 setInterval(() => {
-	const g = generalCache.evictExpired();
-	const s = statsCache.evictExpired();
-	if (g + s > 0) console.log(`[cache] evicted ${g} general + ${s} stats expired entries`);
+	void (async () => {
+		const g = await generalCache.evictExpired();
+		const s = await statsCache.evictExpired() + await allTimeStatsCache.evictExpired() + await orgStatsCache.evictExpired() + await repoStatsCache.evictExpired();
+		const c = contributionsCache.evictExpired();
+		if (g + s + c > 0) console.log(`[cache] evicted ${g} general + ${s} stats + ${c} contributions expired entries`);
+	})().catch(err => console.error('[cache] eviction failed:', err));
 }, 60 * 60 * 1000);
 
+// ─── Metrics ──────────────────────────────────────────────────────────────────
+
+// Cache sizes and evictions are read at scrape time. Redis caches are left out:
+// Redis evicts on its own, and counting their entries takes a SCAN per scrape.
+metrics.onCollect(async () => {
+	const caches = {
+		general: generalCache,
+		stats: statsCache,
+		allTimeStats: allTimeStatsCache,
+		orgStats: orgStatsCache,
+		repoStats: repoStatsCache,
+		contributions: contributionsCache,
+	};
+	for (const [name, cache] of Object.entries(caches)) {
+		if ('backend' in cache && cache.backend === 'redis') continue;
+		const cs = await cache.stats();
+		cacheEntries.set({ cache: name }, cs.size);
+		cacheEvictions.set({ cache: name }, cs.evictions);
+	}
+});
+
+// Budgets as last reported by GitHub; no request is made to GitHub
+metrics.onCollect(() => {
+	rateLimitRemaining.reset();
+	rateLimitLimit.reset();
+	for (const [resource, budget] of Object.entries(getRateLimitTracker().snapshot(upstreamTokens()))) {
+		rateLimitRemaining.set({ resource }, budget.remaining);
+		rateLimitLimit.set({ resource }, budget.limit);
+	}
+});
+
 // ─── Router ───────────────────────────────────────────────────────────────────
 
 export const githubRouter = Router();
 
+// Per-client budgets, charged before the handlers below run. Forced refreshes
+// pay from both the stats budget and their own, much smaller one; comparisons
+// pay for every user they fetch.
+githubRouter.get('/v2', rateLimit('proxy'));
+githubRouter.post('/v2/batch', rateLimit('proxy', { cost: batchSize }));
+githubRouter.get('/v2/compare', rateLimit('stats', { cost: req => Math.min(compareUsernames(req.query.users).length, MAX_COMPARE_USERS) }));
+githubRouter.use(
+	['/v2/stats', '/v2/contributions', '/v2/orgs', '/v2/repos'],
+	rateLimit('stats'),
+	rateLimit('force', { when: req => req.query.force === 'true' })
+);
+
 // ─── Helpers ──────────────────────────────────────────────────────────────────
 
 /**
  * Constructs the standard set of headers for GitHub API requests.
- * Automatically attaches the GITHUB_TOKEN if configured in the environment.
+ * Attaches the pooled token (`GITHUB_TOKENS` / `GITHUB_TOKEN`) with the most
+ * quota left for the resource, if any is configured.
  * 
  * @param accept - The media type for the Accept header (defaults to v3 json)
+ * @param resource - Rate limit resource the request counts against
  * @returns Header object for fetch requests
  */
-function getAuthHeaders(accept = 'application/vnd.github.v3+json'): Record<string, string> {
+function getAuthHeaders(accept = 'application/vnd.github.v3+json', resource = 'core'): Record<string, string> {
 	const headers: Record<string, string> = {
 		Accept: accept,
 		'User-Agent': USER_AGENT,
 	};
-	const token = process.env.GITHUB_TOKEN?.trim();
+	const token = getTokenPool().acquire(resource);
 	if (token) headers['Authorization'] = `Bearer ${token}`;
 	return headers;
 }
 
 /**
- * Fetch with exponential-backoff retry.
- * Retries on 5xx and transient network errors. Stops immediately on 4xx.
+ * Extracts the pooled token from headers built by `getAuthHeaders`.
+ * 
+ * @param headers - Request headers
+ * @returns The token, or null for anonymous requests
+ */
+function bearerToken(headers: RequestInit['headers']): string | null {
+	return /^Bearer (.+)$/.exec(new Headers(headers).get('Authorization') ?? '')?.[1] ?? null;
+}
+
+/**
+ * Fetches and records the response's quota with the rate limit tracker. When
+ * the token is rejected with 401 it leaves the pool, and the request is
+ * repeated with the next token.
+ * 
+ * @param url - Target URL
+ * @param options - Fetch options, with `Authorization` from `getAuthHeaders`
+ * @returns Response object
+ */
+async function fetchWithPooledToken(url: string, options: RequestInit): Promise<Response> {
+	const pool = getTokenPool();
+	const headers = new Headers(options.headers);
+
+	for (;;) {
+		const token = bearerToken(headers);
+		const res = await fetch(url, { ...options, headers });
+		getRateLimitTracker().record(token, res, rateLimitResource(url));
+		if (!token || res.status !== 401) return res;
+
+		pool.reject(token);
+		const next = pool.acquire(rateLimitResource(url));
+		if (!next) return res;
+		void res.body?.cancel();
+		headers.set('Authorization', `Bearer ${next}`);
+	}
+}
+
+/**
+ * Credentials upstream requests are currently made with, for budget checks.
+ * 
+ * @returns The pooled tokens still in rotation, or `[null]` when requests are anonymous
+ */
+function upstreamTokens(): Array<string | null> {
+	const tokens = getTokenPool().activeTokens();
+	return tokens.length > 0 ? tokens : [null];
+}
+
+/**
+ * Refuses work up front when a budget it needs is nearly spent, rather than
+ * letting it fail halfway through an aggregation.
+ * 
+ * @param resource - Rate limit resource, e.g. `graphql`
+ * @param needed - Requests or points the work is expected to cost
+ * @throws {RateLimitBudgetError} If the budget is below its reserve
+ */
+function ensureUpstreamBudget(resource: string, needed = 1): void {
+	getRateLimitTracker().ensureBudget(resource, upstreamTokens(), needed);
+}
+
+/**
+ * Fetch with retries, backoff and time limits, as set by a retry policy.
+ * Retries 5xx responses, timed-out attempts and transient network errors with
+ * jittered exponential backoff, and rate limit refusals (including secondary
+ * limits) after the wait GitHub asks for, if that's within the policy's
+ * `maxRateLimitWaitMs`. Nothing is retried past the overall deadline. Other
+ * responses, including 3xx/4xx (a `304` answers a conditional request), go back
+ * to the caller — except the failures every caller treats alike, which throw
+ * typed errors.
+ * 
+ * Every attempt passes through the upstream's circuit breaker: while it is
+ * open, the call fails at once, and retries stop as soon as it opens.
+ * 
+ * Each attempt is aborted after `attemptTimeoutMs`; that limit keeps running
+ * while the caller reads the returned body, so a stalled stream can't hang the request.
  * 
  * @param url - Target URL
  * @param options - Fetch options
- * @param maxRetries - Maximum number of retry attempts
+ * @param policy - Limits that differ from the configured defaults (see `retryPolicy`)
  * @returns Response object
+ * @throws {CircuitOpenError} If the upstream's circuit breaker is open
+ * @throws {UpstreamAuthError} On 401, once no pooled token is left to try
+ * @throws {UpstreamRateLimited} On 429, or 403 from an exhausted rate limit, that can't be waited out
+ * @throws {UpstreamTimeout} If the last attempt timed out
+ * @throws {UpstreamUnavailable} If GitHub keeps failing with 5xx or can't be reached
  */
 async function fetchWithRetry(
 	url: string,
 	options: RequestInit,
-	maxRetries = 2
+	policy: Partial<RetryPolicy> = {}
 ): Promise<Response> {
-	let lastError: Error | null = null;
-
-	for (let attempt = 0; attempt <= maxRetries; attempt++) {
+	const limits = retryPolicy(policy);
+	const deadline = Date.now() + limits.totalTimeoutMs;
+	const breaker = getCircuitBreaker(url.startsWith(GITHUB_GQL) ? 'graphql' : 'rest');
+	const endpointClass = upstreamEndpointClass(url);
+	// A retry must be allowed, its wait must end before the deadline, and the circuit must still be closed
+	const mayRetry = (attempt: number, waitMs: number) =>
+		attempt < limits.maxRetries && Date.now() + waitMs < deadline && !breaker.isOpen();
+
+	for (let attempt = 0; ; attempt++) {
+		const probe = breaker.acquire();
+		const timeoutMs = Math.max(0, Math.min(limits.attemptTimeoutMs, deadline - Date.now()));
+		const timeout = new UpstreamTimeout(`GitHub API did not respond within ${timeoutMs}ms`, { details: { timeoutMs } });
+		const controller = new AbortController();
+		const timer = setTimeout(() => controller.abort(timeout), timeoutMs);
+		timer.unref();
+		const started = Date.now();
+
+		let res: Response;
 		try {
-			const res = await fetch(url, options);
+			res = await fetchWithPooledToken(url, { ...options, signal: controller.signal });
+		} catch (err) {
+			clearTimeout(timer);
+			breaker.record(false, probe);
+			const timedOut = controller.signal.aborted;
+			recordUpstreamAttempt(endpointClass, timedOut ? 'timeout' : 'error', started);
+			const message = timedOut ? timeout.message : err instanceof Error ? err.message : String(err);
+			const transient =
+				timedOut ||
+				message.includes('fetch failed') ||
+				message.includes('ECONNRESET') ||
+				message.includes('ETIMEDOUT') ||
+				message.includes('ENOTFOUND') ||
+				message.includes('socket hang up');
+
+			const delay = backoffDelay(limits, attempt);
+			if (transient && mayRetry(attempt, delay)) {
+				console.warn(`[retry] network error "${message}" — retrying in ${delay}ms (${attempt + 1}/${limits.maxRetries})`);
+				upstreamRetries.inc({ class: endpointClass, reason: timedOut ? 'timeout' : 'network' });
+				await sleep(delay);
+				continue;
+			}
+			if (timedOut) throw timeout;
+			throw new UpstreamUnavailable('Cannot reach GitHub API', { cause: err, details: { reason: message } });
+		}
 
-			// Never retry on 4xx — client error, not transient
-			if (res.status >= 400 && res.status < 500) return res;
+		// 4xx (rate limits included) still means GitHub is up
+		breaker.record(res.status < 500, probe);
+		recordUpstreamAttempt(endpointClass, res.status, started);
 
-			// Retry on 5xx
-			if (!res.ok && attempt < maxRetries) {
-				const delay = Math.pow(2, attempt) * 500;
-				console.warn(`[retry] ${res.status} from ${url} — retrying in ${delay}ms (${attempt + 1}/${maxRetries})`);
-				await sleep(delay);
+		// Failures below are thrown or retried, so their bodies are never read
+		const discard = () => {
+			clearTimeout(timer);
+			void res.body?.cancel().catch(() => undefined);
+		};
+
+		if (res.status === 401) {
+			discard();
+			throw new UpstreamAuthError();
+		}
+
+		if (isRateLimited(res)) {
+			discard();
+			const wait = rateLimitWaitMs(res);
+			if (wait <= limits.maxRateLimitWaitMs && mayRetry(attempt, wait)) {
+				console.warn(`[retry] ${res.status} rate limited on ${url} — retrying in ${wait}ms (${attempt + 1}/${limits.maxRetries})`);
+				upstreamRetries.inc({ class: endpointClass, reason: 'rate_limited' });
+				await sleep(wait);
 				continue;
 			}
+			throw new UpstreamRateLimited('GitHub rate limit exceeded', { retryAfter: retryAfterSeconds(res) });
+		}
 
-			return res;
-		} catch (err) {
-			lastError = err instanceof Error ? err : new Error(String(err));
-			const transient =
-				lastError.message.includes('fetch failed') ||
-				lastError.message.includes('ECONNRESET') ||
-				lastError.message.includes('ETIMEDOUT') ||
-				lastError.message.includes('ENOTFOUND') ||
-				lastError.message.includes('socket hang up');
-
-			if (transient && attempt < maxRetries) {
-				const delay = Math.pow(2, attempt) * 500;
-				console.warn(`[retry] network error "${lastError.message}" — retrying in ${delay}ms`);
+		// Retry on 5xx
+		if (res.status >= 500) {
+			discard();
+			const delay = backoffDelay(limits, attempt);
+			if (mayRetry(attempt, delay)) {
+				console.warn(`[retry] ${res.status} from ${url} — retrying in ${delay}ms (${attempt + 1}/${limits.maxRetries})`);
+				upstreamRetries.inc({ class: endpointClass, reason: 'server_error' });
 				await sleep(delay);
 				continue;
 			}
-			throw lastError;
+			throw new UpstreamUnavailable(`GitHub API error ${res.status}`, { details: { upstreamStatus: res.status } });
 		}
+
+		return res;
 	}
+}
 
-	throw lastError ?? new Error('Max retries exceeded');
+/**
+ * Counts one upstream attempt and observes how long it took to answer.
+ *
+ * @param endpointClass - Label from `upstreamEndpointClass`
+ * @param status - Response status, or `timeout`/`error` when none arrived
+ * @param started - When the attempt started (ms since epoch)
+ */
+function recordUpstreamAttempt(endpointClass: string, status: number | 'timeout' | 'error', started: number): void {
+	upstreamRequests.inc({ class: endpointClass, status });
+	upstreamRequestDuration.observe({ class: endpointClass }, (Date.now() - started) / 1000);
 }
 
 /**
@@ -131,6 +463,29 @@ function sleep(ms: number): Promise<void> {
 	return new Promise(resolve => setTimeout(resolve, ms));
 }
 
+/**
+ * Maps over items with at most `limit` promises in flight, preserving order.
+ * 
+ * @param items - Inputs to process
+ * @param limit - Maximum number of concurrent calls
+ * @param fn - Async mapper
+ * @returns Results in the same order as `items`
+ */
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+	const results = new Array<R>(items.length);
+	let next = 0;
+
+	const worker = async () => {
+		while (next < items.length) {
+			const index = next++;
+			results[index] = await fn(items[index] as T, index);
+		}
+	};
+
+	await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+	return results;
+}
+
 /**
  * Extracts GitHub rate limit information from response headers.
  * 
@@ -145,18 +500,107 @@ function extractRateLimit(res: Response): RateLimit {
 	};
 }
 
+/**
+ * Executes a GraphQL query against GitHub and unwraps the `data` payload.
+ * Maps unknown logins and GraphQL rate limiting to the same errors the REST paths use.
+ * 
+ * @param query - GraphQL document
+ * @param variables - Query variables (must include `login`)
+ * @param login - Username or org login, used in the not-found error message
+ * @param subject - What the login refers to, used in the not-found error message
+ * @returns The `data` object of the response
+ * @throws {UpstreamNotFound} If the login is not found
+ * @throws {UpstreamAuthError} If GitHub rejects the token
+ * @throws {UpstreamRateLimited} If GraphQL reports its rate limit as exceeded
+ * @throws {UpstreamUnavailable} On 5xx or a response without data
+ * @throws {UpstreamError} `UPSTREAM_GRAPHQL_ERROR` (502) for other failed requests and GraphQL errors
+ */
+async function queryGraphQL<T>(
+	query: string,
+	variables: Record<string, unknown>,
+	login: string,
+	subject = 'User'
+): Promise<T> {
+	const headers = {
+		...getAuthHeaders('application/json', 'graphql'),
+		'Content-Type': 'application/json',
+	};
+	const gqlRes = await fetchWithRetry(GITHUB_GQL, {
+		method: 'POST',
+		headers,
+		body: JSON.stringify({ query, variables }),
+	});
+
+	if (!gqlRes.ok) {
+		void gqlRes.body?.cancel().catch(() => undefined);
+		if (gqlRes.status === 401) throw new UpstreamAuthError();
+		if (isRateLimited(gqlRes)) {
+			throw new UpstreamRateLimited('GitHub GraphQL rate limit exceeded', { retryAfter: retryAfterSeconds(gqlRes) });
+		}
+		if (gqlRes.status >= 500) {
+			throw new UpstreamUnavailable(`GitHub GraphQL API error ${gqlRes.status}`, { details: { upstreamStatus: gqlRes.status } });
+		}
+		throw new UpstreamError(502, 'UPSTREAM_GRAPHQL_ERROR', `GraphQL request failed: ${gqlRes.status}`, {
+			details: { upstreamStatus: gqlRes.status },
+		});
+	}
+
+	const gql = await gqlRes.json() as GraphQLEnvelope<T>;
+
+	if (gql.errors?.length) {
+		const first = gql.errors[0];
+		const msg = first?.message ?? 'GraphQL error';
+		if (first?.type === 'NOT_FOUND' || msg.toLowerCase().includes('could not resolve to a')) {
+			throw new UpstreamNotFound(`${subject} '${login}' not found`);
+		}
+		// GraphQL reports an exhausted point budget with a 200 and an error entry
+		if (first?.type === 'RATE_LIMITED') {
+			throw new UpstreamRateLimited('GitHub GraphQL rate limit exceeded', { retryAfter: retryAfterSeconds(gqlRes) });
+		}
+		throw new UpstreamError(502, 'UPSTREAM_GRAPHQL_ERROR', `GraphQL error: ${msg}`, {
+			...(first?.type && { details: { type: first.type } }),
+		});
+	}
+
+	if (!gql.data) throw new UpstreamUnavailable('GitHub GraphQL API returned no data');
+
+	// Queries that ask for `rateLimit` report their point cost alongside the budget
+	const rateLimit = (gql.data as { rateLimit?: GraphQLRateLimit | null }).rateLimit;
+	if (rateLimit) {
+		getRateLimitTracker().recordGraphQL(bearerToken(headers), rateLimit, /query\s+(\w+)/.exec(query)?.[1] ?? 'query');
+	}
+	return gql.data;
+}
+
 // ─── GraphQL query ────────────────────────────────────────────────────────────
 
+/** Page size for the owned-repositories connection (GitHub's maximum). */
+const REPOS_PAGE_SIZE = 100;
+
+/** Repository fields shared by the stats query and follow-up repository pages. */
+const REPO_NODE_FIELDS = `
+            name
+            stargazerCount
+            forkCount
+            isFork
+            primaryLanguage { name }
+            pushedAt
+            languages(first: 10, orderBy: { field: SIZE, direction: DESC }) {
+              edges { size node { name } }
+            }`;
+
 /**
  * Generates the GraphQL query string to fetch all necessary GitHub data in a single request.
- * Fetches: user profile, top 100 repositories (with language breakdown), 
- * and the 365-day contribution calendar.
+ * Fetches: user profile, the first 100 repositories (with language breakdown), 
+ * and the 365-day contribution calendar. Further repository pages are fetched
+ * with `buildReposPageQuery`.
  * 
  * @returns The formatted GraphQL query
  */
 function buildStatsQuery(): string {
 	return `
     query GitHubStats($login: String!) {
+      rateLimit { cost remaining resetAt limit }
       user(login: $login) {
         name
         avatarUrl
@@ -169,22 +613,14 @@ function buildStatsQuery(): string {
         following { totalCount }
         createdAt
         repositories(
-          first: 100
+          first: ${REPOS_PAGE_SIZE}
           ownerAffiliations: OWNER
           isFork: false
           orderBy: { field: STARGAZERS, direction: DESC }
         ) {
           totalCount
-          nodes {
-            name
-            stargazerCount
-            forkCount
-            isFork
-            primaryLanguage { name }
-            pushedAt
-            languages(first: 10, orderBy: { field: SIZE, direction: DESC }) {
-              edges { size node { name } }
-            }
+          pageInfo { hasNextPage endCursor }
+          nodes {${REPO_NODE_FIELDS}
           }
         }
         contributionsCollection {
@@ -205,10 +641,100 @@ function buildStatsQuery(): string {
   `;
 }
 
+/**
+ * Generates the GraphQL query for one follow-up page of owned repositories.
+ * Uses the same filters and ordering as `buildStatsQuery` so cursors line up.
+ * 
+ * @returns The formatted GraphQL query
+ */
+function buildReposPageQuery(): string {
+	return `
+    query StatsRepos($login: String!, $cursor: String!) {
+      rateLimit { cost remaining resetAt limit }
+      user(login: $login) {
+        repositories(
+          first: ${REPOS_PAGE_SIZE}
+          after: $cursor
+          ownerAffiliations: OWNER
+          isFork: false
+          orderBy: { field: STARGAZERS, direction: DESC }
+        ) {
+          pageInfo { hasNextPage endCursor }
+          nodes {${REPO_NODE_FIELDS}
+          }
+        }
+      }
+    }
+  `;
+}
+
 // ─── Stats computation ────────────────────────────────────────────────────────
 
 interface StreakResult { current: number; longest: number }
 
+interface RepoAggregate {
+	totalStars: number;
+	totalForks: number;
+	recentRepoActivity: number;
+	languageBytes: Record<string, number>;
+	topLanguages: Record<string, number>;
+}
+
+/**
+ * Sums stars, forks, recent activity and language bytes over a list of repositories.
+ * `topLanguages` holds the top 8 languages as whole percentages of all bytes.
+ * 
+ * @param repos - Repository nodes from a GraphQL repositories connection
+ * @returns Aggregated totals and language breakdown
+ */
+function aggregateRepos(repos: GraphQLRepoNode[]): RepoAggregate {
+	let totalStars = 0;
+	let totalForks = 0;
+	let recentRepoActivity = 0;
+	const oneMonthAgo = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString();
+
+	const languageBytes: Record<string, number> = {};
+	let totalBytes = 0;
+
+	for (const repo of repos) {
+		totalStars += repo.stargazerCount;
+		totalForks += repo.forkCount;
+
+		if (repo.pushedAt && repo.pushedAt > oneMonthAgo) recentRepoActivity++;
+
+		for (const edge of repo.languages.edges) {
+			languageBytes[edge.node.name] = (languageBytes[edge.node.name] ?? 0) + edge.size;
+			totalBytes += edge.size;
+		}
+	}
+
+	return {
+		totalStars,
+		totalForks,
+		recentRepoActivity,
+		languageBytes,
+		topLanguages: topLanguagePercentages(languageBytes, totalBytes),
+	};
+}
+
+/**
+ * Converts language byte counts into the top 8 languages as whole percentages.
+ * 
+ * @param languageBytes - Bytes of code per language
+ * @param totalBytes - Sum of all bytes
+ * @returns Language → percentage, largest first, zero-percent entries dropped
+ */
+function topLanguagePercentages(languageBytes: Record<string, number>, totalBytes: number): Record<string, number> {
+	if (totalBytes <= 0) return {};
+	return Object.fromEntries(
+		Object.entries(languageBytes)
+			.map(([lang, bytes]) => [lang, Math.round((bytes / totalBytes) * 100)] as [string, number])
+			.sort((a, b) => b[1] - a[1])
+			.slice(0, 8)
+			.filter(([, pct]) => pct > 0)
+	);
+}
+
 interface ContribDay { date: string; contributionCount: number }
 interface ContribWeek { contributionDays: ContribDay[] }
 
@@ -263,115 +789,380 @@ function computeStreaks(weeks: ContribWeek[]): StreakResult {
 	return { current, longest };
 }
 
-// ─── Core stats fetcher ───────────────────────────────────────────────────────
+// ─── Contribution calendar ────────────────────────────────────────────────────
+
+const CONTRIBUTION_LEVELS: Record<GraphQLContributionLevel, ContributionDay['level']> = {
+	NONE: 0,
+	FIRST_QUARTILE: 1,
+	SECOND_QUARTILE: 2,
+	THIRD_QUARTILE: 3,
+	FOURTH_QUARTILE: 4,
+};
+
+/** Earliest date GitHub has contribution data for (GitHub launched in 2008). */
+const CONTRIBUTIONS_EPOCH = '2008-01-01';
+
+/** Yearly windows per contributions GraphQL request; keeps each query well under GitHub's timeout. */
+const YEARS_PER_QUERY = 4;
 
 /**
- * Orchestrates the data fetching and aggregation for a user's GitHub statistics.
- * Combines a high-efficiency GraphQL query with supplemental REST calls.
+ * Generates a contribution calendar query with one aliased `contributionsCollection`
+ * per yearly window, since GitHub rejects `from`/`to` windows longer than one year.
+ * Dates are generated server-side from validated ranges, so they are inlined as literals.
  * 
- * @param username - The GitHub login to fetch stats for
- * @returns The aggregated statistics object
- * @throws {Error} If user is not found or API authentication fails
+ * @param ranges - Inclusive yearly windows (YYYY-MM-DD)
+ * @returns The formatted GraphQL query
  */
-async function fetchGitHubStats(username: string): Promise<GitHubStats> {
-	// ── 1. GraphQL — one round-trip for everything ──────────────────────────────
-	const gqlRes = await fetchWithRetry(GITHUB_GQL, {
-		method: 'POST',
-		headers: {
-			...getAuthHeaders('application/json'),
-			'Content-Type': 'application/json',
-		},
-		body: JSON.stringify({
-			query: buildStatsQuery(),
-			variables: { login: username },
-		}),
-	});
+function buildCalendarQuery(ranges: Array<{ from: string; to: string }>): string {
+	const collections = ranges.map((range, i) => `
+        y${i}: contributionsCollection(from: "${range.from}T00:00:00Z", to: "${range.to}T23:59:59Z") {
+          contributionCalendar {
+            totalContributions
+            weeks {
+              contributionDays {
+                date
+                contributionCount
+                contributionLevel
+                color
+              }
+            }
+          }
+        }`).join('');
 
-	if (!gqlRes.ok) {
-		if (gqlRes.status === 401) throw new Error('GitHub API authentication failed');
-		throw new Error(`GraphQL request failed: ${gqlRes.status}`);
-	}
+	return `
+    query ContributionCalendar($login: String!) {
+      user(login: $login) {${collections}
+      }
+    }
+  `;
+}
 
-	const gql = await gqlRes.json() as GraphQLResponse;
+/**
+ * Formats a Date as a UTC calendar date (YYYY-MM-DD).
+ */
+function toDateString(date: Date): string {
+	return date.toISOString().slice(0, 10);
+}
 
-	if (gql.errors?.length) {
-		const msg = gql.errors[0]?.message ?? 'GraphQL error';
-		if (msg.toLowerCase().includes('could not resolve to a user')) {
-			throw new Error(`User '${username}' not found`);
-		}
-		throw new Error(`GraphQL error: ${msg}`);
+/**
+ * Splits an inclusive date range into consecutive windows of at most one year,
+ * the largest span `contributionsCollection` accepts.
+ * 
+ * @param from - First day (YYYY-MM-DD)
+ * @param to - Last day (YYYY-MM-DD)
+ * @returns Ordered, non-overlapping inclusive ranges covering from..to
+ */
+function splitIntoYearlyRanges(from: string, to: string): Array<{ from: string; to: string }> {
+	const ranges: Array<{ from: string; to: string }> = [];
+	const end = new Date(`${to}T00:00:00Z`).getTime();
+	let start = new Date(`${from}T00:00:00Z`);
+
+	while (start.getTime() <= end) {
+		const nextYear = new Date(start);
+		nextYear.setUTCFullYear(nextYear.getUTCFullYear() + 1);
+		const chunkEnd = Math.min(nextYear.getTime() - 86400_000, end);
+		ranges.push({ from: toDateString(start), to: toDateString(new Date(chunkEnd)) });
+		start = new Date(chunkEnd + 86400_000);
 	}
 
-	const user = gql.data?.user as GitHubGQLUser | null;
-	if (!user) throw new Error(`User '${username}' not found`);
-
-	// ── 2. REST: user profile + public gists + recent events — parallel ─────────
-	const restHeaders = { headers: getAuthHeaders() };
-	const [userRes, eventsRes] = await Promise.allSettled([
-		fetchWithRetry(`${GITHUB_API}/users/${username}`, restHeaders),
-		fetchWithRetry(`${GITHUB_API}/users/${username}/events?per_page=100`, restHeaders),
-	]);
+	return ranges;
+}
 
-	// Public gists — from REST profile (GraphQL doesn't expose this easily)
-	let publicGists = 0;
-	if (userRes.status === 'fulfilled' && userRes.value.ok) {
-		const u = await userRes.value.json() as GitHubUser;
-		publicGists = u.public_gists;
+/**
+ * Fetches the per-day contribution calendar for an inclusive date range.
+ * Ranges longer than a year are split into yearly windows, batched
+ * `YEARS_PER_QUERY` to a query, fetched in parallel and merged.
+ * 
+ * @param username - The GitHub login
+ * @param from - First day (YYYY-MM-DD)
+ * @param to - Last day (YYYY-MM-DD)
+ * @returns The merged calendar, oldest day first
+ * @throws {UpstreamError} If user is not found or GitHub fails
+ * @throws {RateLimitBudgetError} If the rate limit budget is nearly spent
+ */
+async function fetchContributionCalendar(username: string, from: string, to: string): Promise<ContributionCalendar> {
+	const ranges = splitIntoYearlyRanges(from, to);
+	const batches: Array<Array<{ from: string; to: string }>> = [];
+	for (let i = 0; i < ranges.length; i += YEARS_PER_QUERY) {
+		batches.push(ranges.slice(i, i + YEARS_PER_QUERY));
 	}
-
-	// Events — for supplementary commit counting cross-check
-	let eventsData: GitHubEvent[] = [];
-	if (eventsRes.status === 'fulfilled' && eventsRes.value.ok) {
-		eventsData = await eventsRes.value.json() as GitHubEvent[];
+	ensureUpstreamBudget('graphql', batches.length);
+
+	const results = await Promise.all(batches.map(batch =>
+		queryGraphQL<GraphQLCalendarData>(buildCalendarQuery(batch), { login: username }, username)
+	));
+
+	// Merge by date — calendar weeks can spill past the window on either side
+	const byDate = new Map<string, ContributionDay>();
+	for (const data of results) {
+		if (!data.user) throw new UpstreamNotFound(`User '${username}' not found`);
+		for (const collection of Object.values(data.user)) {
+			for (const week of collection.contributionCalendar.weeks) {
+				for (const day of week.contributionDays) {
+					if (day.date < from || day.date > to) continue;
+					byDate.set(day.date, {
+						date: day.date,
+						count: day.contributionCount,
+						level: CONTRIBUTION_LEVELS[day.contributionLevel] ?? 0,
+						color: day.color,
+					});
+				}
+			}
+		}
 	}
 
-	// ── 3. Aggregate from GraphQL data ──────────────────────────────────────────
-	const repos = user.repositories.nodes;
-
-	let totalStars = 0;
-	let totalForks = 0;
-	let recentRepoActivity = 0;
-	const oneMonthAgo = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString();
-
-	const languageBytes: Record<string, number> = {};
-	let totalBytes = 0;
-
-	for (const repo of repos) {
-		totalStars += repo.stargazerCount;
-		totalForks += repo.forkCount;
-
-		if (repo.pushedAt && repo.pushedAt > oneMonthAgo) recentRepoActivity++;
+	const days = Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
 
-		for (const edge of repo.languages.edges) {
-			languageBytes[edge.node.name] = (languageBytes[edge.node.name] ?? 0) + edge.size;
-			totalBytes += edge.size;
-		}
-	}
+	return {
+		username,
+		from,
+		to,
+		totalContributions: days.reduce((sum, d) => sum + d.count, 0),
+		days,
+		lastUpdated: new Date().toISOString(),
+	};
+}
 
-	const topLanguages = totalBytes > 0
-		? Object.fromEntries(
-			Object.entries(languageBytes)
-				.map(([lang, bytes]) => [lang, Math.round((bytes / totalBytes) * 100)] as [string, number])
-				.sort((a, b) => b[1] - a[1])
-				.slice(0, 8)
-				.filter(([, pct]) => pct > 0)
-		)
-		: {};
+// ─── All-time contributions ───────────────────────────────────────────────────
 
-	// ── 4. Streaks from contribution calendar ───────────────────────────────────
-	const { current: currentStreak, longest: longestStreak } = computeStreaks(
-		user.contributionsCollection.contributionCalendar.weeks
-	);
+interface AllTimeContributions {
+	totalCommits: number;
+	totalPRs: number;
+	totalIssues: number;
+	currentStreak: number;
+	longestStreak: number;
+}
 
-	// ── 5. Last activity ─────────────────────────────────────────────────────────
-	const lastActivity =
-		eventsData[0]?.created_at ??
+/**
+ * Generates a GraphQL query with one aliased `contributionsCollection` per yearly window.
+ * Dates are generated server-side from validated ranges, so they are inlined as literals.
+ * 
+ * @param ranges - Inclusive yearly windows (YYYY-MM-DD)
+ * @returns The formatted GraphQL query
+ */
+function buildAllTimeQuery(ranges: Array<{ from: string; to: string }>): string {
+	const collections = ranges.map((range, i) => `
+        y${i}: contributionsCollection(from: "${range.from}T00:00:00Z", to: "${range.to}T23:59:59Z") {
+          totalCommitContributions
+          totalPullRequestContributions
+          totalIssueContributions
+          contributionCalendar {
+            weeks {
+              contributionDays {
+                date
+                contributionCount
+              }
+            }
+          }
+        }`).join('');
+
+	return `
+    query AllTimeContributions($login: String!) {
+      user(login: $login) {${collections}
+      }
+    }
+  `;
+}
+
+/**
+ * Sums contribution totals over every year since the account was created and
+ * computes streaks over the merged calendar, so streaks spanning a year
+ * boundary are counted once, in full.
+ * 
+ * @param username - The GitHub login
+ * @param createdAt - ISO account creation timestamp
+ * @returns All-time totals and streaks
+ * @throws {UpstreamError} If user is not found or GitHub fails
+ */
+async function fetchAllTimeContributions(username: string, createdAt: string): Promise<AllTimeContributions> {
+	const from = createdAt.slice(0, 10);
+	const to = toDateString(new Date());
+	const ranges = splitIntoYearlyRanges(from, to);
+
+	const batches: Array<Array<{ from: string; to: string }>> = [];
+	for (let i = 0; i < ranges.length; i += YEARS_PER_QUERY) {
+		batches.push(ranges.slice(i, i + YEARS_PER_QUERY));
+	}
+
+	const results = await Promise.all(batches.map(batch =>
+		queryGraphQL<GraphQLAllTimeData>(buildAllTimeQuery(batch), { login: username }, username)
+	));
+
+	let totalCommits = 0;
+	let totalPRs = 0;
+	let totalIssues = 0;
+	const byDate = new Map<string, ContribDay>();
+
+	for (const data of results) {
+		if (!data.user) throw new UpstreamNotFound(`User '${username}' not found`);
+		for (const collection of Object.values(data.user)) {
+			totalCommits += collection.totalCommitContributions;
+			totalPRs += collection.totalPullRequestContributions;
+			totalIssues += collection.totalIssueContributions;
+			for (const week of collection.contributionCalendar.weeks) {
+				for (const day of week.contributionDays) {
+					if (day.date >= from && day.date <= to) byDate.set(day.date, day);
+				}
+			}
+		}
+	}
+
+	const days = Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+	const { current, longest } = computeStreaks([{ contributionDays: days }]);
+
+	return { totalCommits, totalPRs, totalIssues, currentStreak: current, longestStreak: longest };
+}
+
+// ─── Repository pagination ────────────────────────────────────────────────────
+
+/**
+ * Maximum number of repository pages (of 100) aggregated per user, including
+ * the first page from the stats query. Read lazily so `.env` values apply.
+ * Configurable via `STATS_MAX_REPO_PAGES`; defaults to 10 (1,000 repos).
+ */
+function maxRepoPages(): number {
+	const pages = Number.parseInt(process.env.STATS_MAX_REPO_PAGES ?? '', 10);
+	return Number.isFinite(pages) && pages > 0 ? pages : 10;
+}
+
+/**
+ * GraphQL points the follow-up repository pages may cost: every page the cap
+ * allows, at the cost GitHub last reported for the page query (1 point until
+ * it has reported one). Reserved up front so pagination can't run out midway.
+ * 
+ * @param pageQuery - Name of the page query, e.g. `StatsRepos`
+ * @returns Worst-case points
+ */
+function repoPagesBudget(pageQuery: string): number {
+	return (maxRepoPages() - 1) * (getRateLimitTracker().lastQueryCost(pageQuery) ?? 1);
+}
+
+interface RepoPage<T> {
+	pageInfo: GraphQLPageInfo;
+	nodes: T[];
+}
+
+/**
+ * Follows `pageInfo.endCursor` from a first repository page until every repository
+ * is fetched or the page cap is reached. Pages are inherently sequential.
+ * 
+ * @param login - User or org login (for logging)
+ * @param firstPage - The repositories connection returned by the main query
+ * @param fetchPage - Fetches the page after the given cursor
+ * @returns All fetched repositories and whether the list is complete
+ * @throws {Error} If a follow-up page fails
+ */
+async function paginateRepos<T>(
+	login: string,
+	firstPage: RepoPage<T> & { totalCount: number },
+	fetchPage: (cursor: string) => Promise<RepoPage<T>>
+): Promise<{ repos: T[]; complete: boolean }> {
+	const repos = [...firstPage.nodes];
+	let pageInfo = firstPage.pageInfo;
+	const limit = maxRepoPages();
+
+	for (let page = 1; pageInfo.hasNextPage && pageInfo.endCursor && page < limit; page++) {
+		const next = await fetchPage(pageInfo.endCursor);
+		repos.push(...next.nodes);
+		pageInfo = next.pageInfo;
+	}
+
+	if (pageInfo.hasNextPage) {
+		console.warn(`[stats] ${login}: repo cap reached (${limit} pages) — aggregated ${repos.length}/${firstPage.totalCount} repos`);
+	}
+
+	return { repos, complete: !pageInfo.hasNextPage };
+}
+
+/**
+ * Fetches every owned repository of a user, starting from the stats query's first page.
+ * 
+ * @param username - The GitHub login
+ * @param firstPage - The repositories connection returned by the stats query
+ * @returns All fetched repositories and whether the list is complete
+ */
+async function fetchAllRepos(
+	username: string,
+	firstPage: GitHubGQLUser['repositories']
+): Promise<{ repos: GraphQLRepoNode[]; complete: boolean }> {
+	return paginateRepos(username, firstPage, async cursor => {
+		const data = await queryGraphQL<GraphQLReposPageData>(buildReposPageQuery(), { login: username, cursor }, username);
+		if (!data.user) throw new UpstreamNotFound(`User '${username}' not found`);
+		return data.user.repositories;
+	});
+}
+
+// ─── Core stats fetcher ───────────────────────────────────────────────────────
+
+/**
+ * Orchestrates the data fetching and aggregation for a user's GitHub statistics.
+ * Combines a high-efficiency GraphQL query with supplemental REST calls.
+ * With `range: 'all'`, contribution totals and streaks are replaced by all-time
+ * values from additional yearly queries.
+ * 
+ * @param username - The GitHub login to fetch stats for
+ * @param range - Window for contribution totals and streaks
+ * @returns The aggregated statistics object
+ * @throws {UpstreamError} If user is not found or GitHub fails
+ * @throws {RateLimitBudgetError} If the rate limit budget is nearly spent
+ */
+async function fetchGitHubStats(username: string, range: StatsRange = 'year'): Promise<GitHubStats> {
+	// Worst case: the stats query, every repository page and, for all-time stats, a query per YEARS_PER_QUERY years
+	const allTimeQueries = range === 'all'
+		? Math.ceil(splitIntoYearlyRanges(CONTRIBUTIONS_EPOCH, toDateString(new Date())).length / YEARS_PER_QUERY)
+		: 0;
+	ensureUpstreamBudget('graphql', (getRateLimitTracker().lastQueryCost('GitHubStats') ?? 1) + repoPagesBudget('StatsRepos') + allTimeQueries);
+	ensureUpstreamBudget('core', 2);
+
+	// ── 1. GraphQL — one round-trip for everything ──────────────────────────────
+	const gql = await queryGraphQL<GraphQLResponse['data']>(buildStatsQuery(), { login: username }, username);
+
+	const user = gql.user as GitHubGQLUser | null;
+	if (!user) throw new UpstreamNotFound(`User '${username}' not found`);
+
+	// ── 2. REST: user profile + public gists + recent events — parallel ─────────
+	// Remaining repo pages and all-time totals depend on step 1, so they run alongside the REST calls
+	const restHeaders = { headers: getAuthHeaders() };
+	const [[userRes, eventsRes], repoList, allTime] = await Promise.all([
+		Promise.allSettled([
+			fetchWithRetry(`${GITHUB_API}/users/${username}`, restHeaders),
+			fetchWithRetry(`${GITHUB_API}/users/${username}/events?per_page=100`, restHeaders),
+		]),
+		fetchAllRepos(username, user.repositories),
+		range === 'all' ? fetchAllTimeContributions(username, user.createdAt) : Promise.resolve(null),
+	]);
+
+	// Public gists — from REST profile (GraphQL doesn't expose this easily)
+	let publicGists = 0;
+	if (userRes.status === 'fulfilled' && userRes.value.ok) {
+		const u = await userRes.value.json() as GitHubUser;
+		publicGists = u.public_gists;
+	}
+
+	// Events — for supplementary commit counting cross-check
+	let eventsData: GitHubEvent[] = [];
+	if (eventsRes.status === 'fulfilled' && eventsRes.value.ok) {
+		eventsData = await eventsRes.value.json() as GitHubEvent[];
+	}
+
+	// ── 3. Aggregate from GraphQL data ──────────────────────────────────────────
+	const repos = repoList.repos;
+	const { totalStars, totalForks, recentRepoActivity, languageBytes, topLanguages } = aggregateRepos(repos);
+
+	// ── 4. Streaks from contribution calendar ───────────────────────────────────
+	const { current: currentStreak, longest: longestStreak } = allTime
+		? { current: allTime.currentStreak, longest: allTime.longestStreak }
+		: computeStreaks(user.contributionsCollection.contributionCalendar.weeks);
+
+	// ── 5. Last activity ─────────────────────────────────────────────────────────
+	const lastActivity =
+		eventsData[0]?.created_at ??
 		repos[0]?.pushedAt ??
 		user.createdAt;
 
 	// ── 6. Forked repos count (using forks from all repos the user owns) ─────────
 	// GraphQL query only fetches OWNER non-fork repos; get fork count from REST
-	const contributedTo = user.repositories.nodes.filter(r => r.isFork).length;
+	const contributedTo = repos.filter(r => r.isFork).length;
 
 	return {
 		username,
@@ -395,196 +1186,1391 @@ async function fetchGitHubStats(username: string): Promise<GitHubStats> {
 		totalForks,
 		contributedTo,
 
-		totalCommits: user.contributionsCollection.totalCommitContributions,
-		totalPRs: user.contributionsCollection.totalPullRequestContributions,
-		totalIssues: user.contributionsCollection.totalIssueContributions,
+		range,
+		totalCommits: allTime?.totalCommits ?? user.contributionsCollection.totalCommitContributions,
+		totalPRs: allTime?.totalPRs ?? user.contributionsCollection.totalPullRequestContributions,
+		totalIssues: allTime?.totalIssues ?? user.contributionsCollection.totalIssueContributions,
 		currentStreak,
 		longestStreak,
 
 		topLanguages,
+		languageBytes,
 		recentRepoActivity,
+		reposAggregated: repos.length,
+		reposComplete: repoList.complete,
 
 		lastUpdated: new Date().toISOString(),
 	};
 }
 
-// ─── Routes ───────────────────────────────────────────────────────────────────
+// ─── Comparison ───────────────────────────────────────────────────────────────
 
-/** Generic GitHub REST proxy with optional caching */
-githubRouter.get('/v2', async (req: Request, res: ExpressResponse) => {
-	const { endpoint, cache: cacheParam } = req.query;
+/** Maximum number of users in one comparison. */
+const MAX_COMPARE_USERS = 10;
 
-	if (!endpoint || typeof endpoint !== 'string') {
-		return res.status(400).json({
-			error: 'endpoint parameter required',
-			usage: 'GET /api/github/v2?endpoint=/users/username',
-		});
-	}
-	if (!endpoint.startsWith('/')) {
-		return res.status(400).json({
-			error: 'endpoint must start with /',
-			example: '/users/username/repos',
+/**
+ * Parses the `users` query param of /compare. Usernames are case-insensitive,
+ * so only the first spelling of each is kept.
+ * 
+ * @param value - Raw `req.query.users` value
+ * @returns The distinct, non-empty usernames in order
+ */
+function compareUsernames(value: unknown): string[] {
+	return (queryString(value) ?? '')
+		.split(',')
+		.map(u => u.trim())
+		.filter((u, i, all) => u !== '' && all.findIndex(o => o.toLowerCase() === u.toLowerCase()) === i);
+}
+
+/** Maximum concurrent stats fetches for uncached users in a comparison. */
+const COMPARE_CONCURRENCY = 3;
+
+/** Numeric `GitHubStats` fields ranked by /compare. */
+const COMPARE_METRICS = [
+	'totalStars',
+	'totalForks',
+	'totalCommits',
+	'totalPRs',
+	'totalIssues',
+	'currentStreak',
+	'longestStreak',
+	'followers',
+	'totalRepos',
+	'recentRepoActivity',
+] as const satisfies ReadonlyArray<keyof GitHubStats>;
+
+/**
+ * Ranks users on each compared metric (best first). Tied values share a rank
+ * ("1, 1, 3" competition ranking) and deltas are measured against the leader.
+ * 
+ * @param stats - Successfully resolved stats
+ * @returns Rankings keyed by metric name
+ */
+function rankMetrics(stats: GitHubStats[]): Record<string, MetricRank[]> {
+	const rankings: Record<string, MetricRank[]> = {};
+
+	for (const metric of COMPARE_METRICS) {
+		const sorted = [...stats].sort((a, b) => b[metric] - a[metric]);
+		const leader = sorted[0]?.[metric] ?? 0;
+
+		let rank = 0;
+		rankings[metric] = sorted.map((s, i) => {
+			if (i === 0 || s[metric] !== sorted[i - 1]?.[metric]) rank = i + 1;
+			return { username: s.username, value: s[metric], rank, deltaFromLeader: s[metric] - leader };
 		});
 	}
 
-	const shouldCache = cacheParam === 'true';
+	return rankings;
+}
 
-	if (shouldCache) {
-		const cached = generalCache.peek(endpoint);
-		if (cached) {
-			console.log(`[cache] HIT general:${endpoint}`);
-			const base = { _cached: true, _cacheAge: Math.floor((Date.now() - cached.lastUpdated) / 1000) };
-			if (Array.isArray(cached.value)) return res.json(cached.value);
-			if (cached.value && typeof cached.value === 'object') return res.json({ ...cached.value as object, ...base });
-			return res.json(cached.value);
+/**
+ * Computes which top languages the compared users share, overall and pairwise.
+ * 
+ * @param stats - Successfully resolved stats
+ * @returns Common languages and pairwise overlaps with Jaccard similarity
+ */
+function languageOverlap(stats: GitHubStats[]): GitHubComparison['languages'] {
+	const sets = stats.map(s => new Set(Object.keys(s.topLanguages)));
+
+	const common = sets.length > 0
+		? [...(sets[0] ?? [])].filter(lang => sets.every(set => set.has(lang)))
+		: [];
+
+	const pairs: LanguagePairOverlap[] = [];
+	for (let i = 0; i < stats.length; i++) {
+		for (let j = i + 1; j < stats.length; j++) {
+			const a = sets[i] ?? new Set<string>();
+			const b = sets[j] ?? new Set<string>();
+			const shared = [...a].filter(lang => b.has(lang));
+			const union = new Set([...a, ...b]).size;
+			pairs.push({
+				users: [stats[i]?.username ?? '', stats[j]?.username ?? ''],
+				shared,
+				similarity: union > 0 ? Number((shared.length / union).toFixed(3)) : 0,
+			});
 		}
 	}
 
+	return { common, pairs };
+}
+
+// ─── Organization stats ───────────────────────────────────────────────────────
+
+/** Number of repositories listed in `topRepositories` / `recentlyActiveRepos`. */
+const ORG_REPO_LIST_SIZE = 10;
+
+const ORG_REPO_NODE_FIELDS = `${REPO_NODE_FIELDS}
+            description
+            url`;
+
+/**
+ * Generates the GraphQL query for an organization profile plus its first page
+ * of public, non-fork repositories (with language breakdown).
+ * 
+ * @returns The formatted GraphQL query
+ */
+function buildOrgStatsQuery(): string {
+	return `
+    query OrgStats($login: String!) {
+      rateLimit { cost remaining resetAt limit }
+      organization(login: $login) {
+        login
+        name
+        avatarUrl
+        description
+        location
+        websiteUrl
+        createdAt
+        membersWithRole { totalCount }
+        repositories(
+          first: ${REPOS_PAGE_SIZE}
+          privacy: PUBLIC
+          isFork: false
+          orderBy: { field: STARGAZERS, direction: DESC }
+        ) {
+          totalCount
+          pageInfo { hasNextPage endCursor }
+          nodes {${ORG_REPO_NODE_FIELDS}
+          }
+        }
+      }
+    }
+  `;
+}
+
+/**
+ * Generates the GraphQL query for one follow-up page of organization repositories.
+ * 
+ * @returns The formatted GraphQL query
+ */
+function buildOrgReposPageQuery(): string {
+	return `
+    query OrgRepos($login: String!, $cursor: String!) {
+      rateLimit { cost remaining resetAt limit }
+      organization(login: $login) {
+        repositories(
+          first: ${REPOS_PAGE_SIZE}
+          after: $cursor
+          privacy: PUBLIC
+          isFork: false
+          orderBy: { field: STARGAZERS, direction: DESC }
+        ) {
+          pageInfo { hasNextPage endCursor }
+          nodes {${ORG_REPO_NODE_FIELDS}
+          }
+        }
+      }
+    }
+  `;
+}
+
+/**
+ * Maps a GraphQL repository node to the public `RepoSummary` shape.
+ */
+function toRepoSummary(repo: GraphQLOrgRepoNode): RepoSummary {
+	return {
+		name: repo.name,
+		description: repo.description,
+		url: repo.url,
+		stars: repo.stargazerCount,
+		forks: repo.forkCount,
+		primaryLanguage: repo.primaryLanguage?.name ?? null,
+		pushedAt: repo.pushedAt,
+	};
+}
+
+/**
+ * Fetches and aggregates statistics for a GitHub organization.
+ * 
+ * @param org - The organization login
+ * @returns The aggregated organization statistics
+ * @throws {UpstreamError} If the organization is not found or GitHub fails
+ * @throws {RateLimitBudgetError} If the rate limit budget is nearly spent
+ */
+async function fetchOrgStats(org: string): Promise<GitHubOrgStats> {
+	ensureUpstreamBudget('graphql', (getRateLimitTracker().lastQueryCost('OrgStats') ?? 1) + repoPagesBudget('OrgRepos'));
+	const gql = await queryGraphQL<GraphQLOrgStatsData>(buildOrgStatsQuery(), { login: org }, org, 'Organization');
+	const organization = gql.organization;
+	if (!organization) throw new UpstreamNotFound(`Organization '${org}' not found`);
+
+	const { repos, complete } = await paginateRepos(org, organization.repositories, async cursor => {
+		const data = await queryGraphQL<GraphQLOrgReposPageData>(buildOrgReposPageQuery(), { login: org, cursor }, org, 'Organization');
+		if (!data.organization) throw new UpstreamNotFound(`Organization '${org}' not found`);
+		return data.organization.repositories;
+	});
+
+	const { totalStars, totalForks, recentRepoActivity, languageBytes, topLanguages } = aggregateRepos(repos);
+
+	// Repos arrive sorted by stars; recent activity needs its own ordering
+	const recentlyActive = repos
+		.filter(r => r.pushedAt)
+		.sort((a, b) => (b.pushedAt ?? '').localeCompare(a.pushedAt ?? ''))
+		.slice(0, ORG_REPO_LIST_SIZE);
+
+	return {
+		org: organization.login,
+		name: organization.name,
+		avatarUrl: organization.avatarUrl,
+		description: organization.description,
+		location: organization.location,
+		websiteUrl: organization.websiteUrl,
+		createdAt: organization.createdAt,
+
+		memberCount: organization.membersWithRole.totalCount,
+		totalRepos: organization.repositories.totalCount,
+		totalStars,
+		totalForks,
+
+		topLanguages,
+		languageBytes,
+		recentRepoActivity,
+		recentlyActiveRepos: recentlyActive.map(toRepoSummary),
+		topRepositories: repos.slice(0, ORG_REPO_LIST_SIZE).map(toRepoSummary),
+
+		reposAggregated: repos.length,
+		reposComplete: complete,
+
+		lastUpdated: new Date().toISOString(),
+	};
+}
+
+// ─── Repository stats ─────────────────────────────────────────────────────────
+
+/**
+ * Generates the GraphQL query for a single repository summary.
+ * 
+ * @returns The formatted GraphQL query
+ */
+function buildRepoStatsQuery(): string {
+	return `
+    query RepoStats($owner: String!, $name: String!) {
+      rateLimit { cost remaining resetAt limit }
+      repository(owner: $owner, name: $name) {
+        name
+        nameWithOwner
+        owner { login }
+        description
+        url
+        homepageUrl
+        isArchived
+        isFork
+        stargazerCount
+        forkCount
+        watchers { totalCount }
+        issues(states: OPEN) { totalCount }
+        pullRequests(states: OPEN) { totalCount }
+        languages(first: 20, orderBy: { field: SIZE, direction: DESC }) {
+          edges { size node { name } }
+        }
+        repositoryTopics(first: 20) { nodes { topic { name } } }
+        licenseInfo { spdxId name }
+        latestRelease { tagName name publishedAt url }
+        defaultBranchRef {
+          name
+          target {
+            ... on Commit {
+              oid
+              messageHeadline
+              committedDate
+              url
+              author { name user { login } }
+            }
+          }
+        }
+        createdAt
+        pushedAt
+      }
+    }
+  `;
+}
+
+/**
+ * Counts a repository's contributors (including anonymous ones).
+ * GraphQL doesn't expose this, so it uses the REST list with `per_page=1`
+ * and reads the page count from the `Link` header.
+ * 
+ * @param fullName - Repository in owner/name form
+ * @returns The contributor count, or null if GitHub declines to compute it
+ */
+async function fetchContributorCount(fullName: string): Promise<number | null> {
+	const res = await fetchWithRetry(
+		`${GITHUB_API}/repos/${fullName}/contributors?per_page=1&anon=true`,
+		{ headers: getAuthHeaders() },
+		CONTRIBUTORS_RETRY
+	);
+
+	if (res.status === 204) return 0; // empty repository
+	if (!res.ok) {
+		// e.g. 403 for histories too large to list — release the connection unread
+		void res.body?.cancel().catch(() => undefined);
+		return null;
+	}
+
+	const last = res.headers.get('Link')?.match(/[?&]page=(\d+)>;\s*rel="last"/);
+	if (last?.[1]) {
+		void res.body?.cancel().catch(() => undefined);
+		return Number(last[1]);
+	}
+
+	const body = await res.json() as unknown[];
+	return body.length;
+}
+
+/**
+ * Fetches a normalized summary of one repository: one GraphQL round-trip for
+ * everything GraphQL exposes, with the REST contributor count in parallel.
+ * 
+ * @param owner - Owner login
+ * @param name - Repository name
+ * @returns The repository summary
+ * @throws {UpstreamError} If the repository is not found or GitHub fails
+ * @throws {RateLimitBudgetError} If the rate limit budget is nearly spent
+ */
+async function fetchRepoStats(owner: string, name: string): Promise<GitHubRepoStats> {
+	const fullName = `${owner}/${name}`;
+	ensureUpstreamBudget('graphql', getRateLimitTracker().lastQueryCost('RepoStats') ?? 1);
+	ensureUpstreamBudget('core');
+	const [gql, contributorCount] = await Promise.all([
+		queryGraphQL<GraphQLRepoStatsData>(buildRepoStatsQuery(), { owner, name }, fullName, 'Repository'),
+		fetchContributorCount(fullName).catch(() => null),
+	]);
+
+	const repo = gql.repository;
+	if (!repo) throw new UpstreamNotFound(`Repository '${fullName}' not found`);
+
+	const languageBytes: Record<string, number> = {};
+	let totalBytes = 0;
+	for (const edge of repo.languages.edges) {
+		languageBytes[edge.node.name] = edge.size;
+		totalBytes += edge.size;
+	}
+
+	const head = repo.defaultBranchRef;
+	const commit = head?.target;
+
+	return {
+		owner: repo.owner.login,
+		name: repo.name,
+		fullName: repo.nameWithOwner,
+		description: repo.description,
+		url: repo.url,
+		homepageUrl: repo.homepageUrl || null,
+		isArchived: repo.isArchived,
+		isFork: repo.isFork,
+
+		stars: repo.stargazerCount,
+		forks: repo.forkCount,
+		watchers: repo.watchers.totalCount,
+		openIssues: repo.issues.totalCount,
+		openPullRequests: repo.pullRequests.totalCount,
+		contributorCount,
+
+		topLanguages: topLanguagePercentages(languageBytes, totalBytes),
+		languageBytes,
+		topics: repo.repositoryTopics.nodes.map(n => n.topic.name),
+		license: repo.licenseInfo,
+		latestRelease: repo.latestRelease,
+		lastCommit: head && commit
+			? {
+				branch: head.name,
+				sha: commit.oid,
+				message: commit.messageHeadline,
+				author: commit.author?.user?.login ?? commit.author?.name ?? null,
+				committedDate: commit.committedDate,
+				url: commit.url,
+			}
+			: null,
+
+		createdAt: repo.createdAt,
+		pushedAt: repo.pushedAt,
+
+		lastUpdated: new Date().toISOString(),
+	};
+}
+
+// ─── REST proxy ───────────────────────────────────────────────────────────────
+
+/** Maximum number of endpoints accepted by `POST /v2/batch`. */
+const MAX_BATCH_SIZE = 20;
+
+/** How many batch items may be in flight against GitHub at once. */
+const BATCH_CONCURRENCY = 5;
+
+/**
+ * Cache TTL per proxied path, first match wins. Rules use the endpoint-policy
+ * syntax (globs, or `re:` regexes). Unmatched paths get `CACHE_TTL_GENERAL`.
+ */
+const PROXY_CACHE_TTLS: ReadonlyArray<{ pattern: RegExp; ttlMs: number }> = [
+	{ rule: 're:/(received_)?events(/|$)', ttlMs: 1000 * 60 * 5 },  // activity feeds: 5 minutes
+	{ rule: '/search/**', ttlMs: 1000 * 60 * 10 },                   // 10 minutes
+	{ rule: 're:^/repos/[^/]+/[^/]+/(actions|branches|commits|issues|pulls|releases)(/|$)', ttlMs: 1000 * 60 * 60 }, // 1 hour
+	{ rule: '/repos/**', ttlMs: 1000 * 60 * 60 * 6 },                // 6 hours
+	{ rule: '/orgs/**', ttlMs: 1000 * 60 * 60 * 24 },                // 1 day
+	{ rule: '/users/**', ttlMs: CACHE_TTL_GENERAL },
+].map(({ rule, ttlMs }) => ({ pattern: compileRule(rule), ttlMs }));
+
+/**
+ * Picks the cache TTL for a proxied path from `PROXY_CACHE_TTLS`.
+ * 
+ * @param path - Normalized path, optionally with a query string (ignored)
+ * @returns TTL in milliseconds
+ */
+function proxyCacheTtl(path: string): number {
+	const pathname = path.split('?')[0] ?? path;
+	return PROXY_CACHE_TTLS.find(({ pattern }) => pattern.test(pathname))?.ttlMs ?? CACHE_TTL_GENERAL;
+}
+
+/**
+ * Counts the items in a batch body, for charging the proxy budget per item.
+ * 
+ * @param req - Request whose JSON body is an array or `{ requests }`
+ * @returns Number of items (at most `MAX_BATCH_SIZE`), or 1 if the body is malformed
+ */
+function batchSize(req: Request): number {
+	const body: unknown = req.body;
+	const items: unknown = Array.isArray(body) ? body : (body as { requests?: unknown } | undefined)?.requests;
+	return Array.isArray(items) ? Math.min(items.length, MAX_BATCH_SIZE) : 1;
+}
+
+/** Outcome of one proxied call. */
+interface ProxyOutcome {
+	result: ProxyResult;
+	/** GitHub's rate-limit headers, when a request was made */
+	rateLimit: RateLimit | null;
+	/** Why the call failed (`result` then carries its status and envelope fields) */
+	error?: AppError;
+}
+
+/**
+ * Proxies a single GitHub REST path, consulting the general cache when asked.
+ * The path is normalized and checked against the endpoint policy first.
+ * Expired cache entries that carry an `ETag`/`Last-Modified` are revalidated
+ * with a conditional request; GitHub doesn't count a `304` against the rate limit.
+ * Concurrent identical calls are coalesced into one upstream request.
+ * Never throws: policy, upstream and network failures become a failed outcome
+ * so callers can report them per endpoint.
+ * 
+ * @param endpoint - GitHub API path (already validated to start with `/`)
+ * @param shouldCache - Serve from and store in `generalCache`
+ * @returns The proxied result, plus GitHub's rate-limit headers when a request was made
+ */
+async function proxyRequest(endpoint: string, shouldCache: boolean): Promise<ProxyOutcome> {
+	let decision: PolicyDecision;
+	try {
+		decision = evaluateEndpoint(endpoint);
+	} catch (err) {
+		console.error('[policy] error:', err);
+		const reason = err instanceof Error ? err.message : String(err);
+		return failedProxy(endpoint, new AppError(500, 'PROXY_POLICY_INVALID', 'Proxy policy misconfigured', { cause: err, details: { reason } }));
+	}
+	if (!decision.allowed) {
+		console.warn(`[policy] blocked ${endpoint}${decision.rule ? ` (${decision.rule})` : ''}`);
+		const details = {
+			endpoint,
+			...(decision.rule && { rule: decision.rule }),
+			...(decision.origin && { ruleSource: decision.origin }),
+		};
+		return failedProxy(endpoint, decision.status === 400
+			? new ValidationError(decision.error, details)
+			: new AppError(decision.status, 'ENDPOINT_BLOCKED', decision.error, { details }));
+	}
+
+	// Forward and cache under the normalized path
+	const path = decision.endpoint;
+
+	const cached = shouldCache ? await generalCache.peek(path, true) : null;
+	if (shouldCache) countCacheLookup('general', cached);
+	if (cached && !cached.stale) {
+		console.log(`[cache] HIT general:${path}`);
+		return {
+			result: {
+				endpoint,
+				status: 200,
+				data: cached.value.body,
+				cached: true,
+				cacheAge: Math.floor((Date.now() - cached.lastUpdated) / 1000),
+				cacheTtl: cached.ttlMs / 1000,
+			},
+			rateLimit: null,
+		};
+	}
+
+	// Identical concurrent calls share one upstream request
+	const shared = await proxyFlights.run(`${shouldCache ? 'cached' : 'direct'}:${path}`, () => fetchProxied(endpoint, path, shouldCache, cached));
+	return shared.result.endpoint === endpoint ? shared : { ...shared, result: { ...shared.result, endpoint } };
+}
+
+/**
+ * Performs the upstream call for `proxyRequest`, revalidating `cached` with a
+ * conditional request when it carries validators.
+ * 
+ * @param endpoint - GitHub API path as requested
+ * @param path - Normalized path to forward and cache under
+ * @param shouldCache - Store a successful response in `generalCache`
+ * @param cached - Expired entry to revalidate, if any
+ * @returns The proxied result, plus GitHub's rate-limit headers
+ */
+async function fetchProxied(
+	endpoint: string,
+	path: string,
+	shouldCache: boolean,
+	cached: CacheRecord<CachedResponse> | null
+): Promise<ProxyOutcome> {
+	const serveStale = (entry: CacheRecord<CachedResponse>, error: AppError): ProxyOutcome => {
+		console.warn(`[cache] STALE general:${path} — ${error.message}`);
+		return {
+			result: {
+				endpoint,
+				status: 200,
+				data: entry.value.body,
+				cached: true,
+				cacheAge: Math.floor((Date.now() - entry.lastUpdated) / 1000),
+				cacheTtl: entry.ttlMs / 1000,
+				stale: true,
+			},
+			rateLimit: null,
+		};
+	};
+
+	// With the budget nearly spent or GitHub failing, an expired entry beats calling upstream
 	try {
-		const url = `${GITHUB_API}${endpoint}`;
-		const response = await fetchWithRetry(url, { headers: getAuthHeaders() });
+		getCircuitBreaker('rest').check();
+		ensureUpstreamBudget(rateLimitResource(path));
+	} catch (err) {
+		if (!(err instanceof RateLimitBudgetError || err instanceof CircuitOpenError)) throw err;
+		return cached ? serveStale(cached, err) : failedProxy(endpoint, err);
+	}
+
+	const headers = getAuthHeaders(undefined, rateLimitResource(path));
+	if (cached?.value.etag) headers['If-None-Match'] = cached.value.etag;
+	if (cached?.value.lastModified) headers['If-Modified-Since'] = cached.value.lastModified;
 
-		// Forward rate-limit headers to client
+	try {
+		const response = await fetchWithRetry(`${GITHUB_API}${path}`, { headers }, PROXY_RETRY);
 		const rl = extractRateLimit(response);
-		if (rl.remaining) res.setHeader('X-RateLimit-Remaining', rl.remaining);
-		if (rl.reset) res.setHeader('X-RateLimit-Reset', rl.reset);
+		const ttlMs = proxyCacheTtl(path);
+
+		if (response.status === 304 && cached) {
+			// Unchanged upstream — refresh the entry in place with any new validators
+			await generalCache.set(path, {
+				body: cached.value.body,
+				etag: response.headers.get('ETag') ?? cached.value.etag,
+				lastModified: response.headers.get('Last-Modified') ?? cached.value.lastModified,
+			}, { ttlMs });
+			proxyRevalidations++;
+			console.log(`[cache] REVALIDATED general:${path}`);
+			return {
+				result: { endpoint, status: 200, data: cached.value.body, cached: true, cacheAge: 0, cacheTtl: ttlMs / 1000, revalidated: true },
+				rateLimit: rl,
+			};
+		}
 
+		// 401, rate limiting and 5xx were thrown by fetchWithRetry
 		if (!response.ok) {
-			if (response.status === 401) {
-				return res.status(401).json({ error: 'GitHub token invalid or expired' });
+			if (response.status === 404) {
+				return failedProxy(endpoint, new UpstreamNotFound(`Resource not found: ${endpoint}`), rl);
 			}
 			if (response.status === 403) {
-				return res.status(429).json({
-					error: 'GitHub rate limit exceeded',
-					resetAt: rl.reset ? new Date(Number(rl.reset) * 1000).toISOString() : null,
-				});
-			}
-			if (response.status === 404) {
-				return res.status(404).json({ error: 'Resource not found', endpoint });
+				return failedProxy(endpoint, new UpstreamError(403, 'UPSTREAM_FORBIDDEN', `GitHub refused access to ${endpoint}`), rl);
 			}
-			return res.status(response.status).json({ error: `GitHub API error ${response.status}`, endpoint });
+			return failedProxy(endpoint, new UpstreamError(response.status, 'UPSTREAM_ERROR', `GitHub API error ${response.status}`, {
+				details: { endpoint },
+			}), rl);
 		}
 
-		const data = await response.json();
-		if (shouldCache) generalCache.set(endpoint, data);
+		const data: unknown = await response.json();
+		if (shouldCache) {
+			await generalCache.set(path, {
+				body: data,
+				etag: response.headers.get('ETag'),
+				lastModified: response.headers.get('Last-Modified'),
+			}, { ttlMs });
+		}
 
-		return res.json(data);
+		return {
+			result: { endpoint, status: 200, data, cached: false, ...(shouldCache && { cacheTtl: ttlMs / 1000 }) },
+			rateLimit: rl,
+		};
 
 	} catch (err) {
-		const msg = err instanceof Error ? err.message : 'Unknown error';
-		if (msg.includes('ENOTFOUND') || msg.includes('fetch failed')) {
-			return res.status(503).json({ error: 'Cannot reach GitHub API', details: msg });
-		}
-		return res.status(500).json({ error: 'Internal error', details: msg });
+		const error = toAppError(err);
+		if (error.status >= 500 && !(error instanceof UpstreamError)) console.error('[proxy] error:', err);
+		// An outage, a breaker tripped mid-call or a rate limit still leaves the expired entry to answer with
+		if (cached && (error.status >= 500 || error.status === 429)) return serveStale(cached, error);
+		return failedProxy(endpoint, error);
+	}
+}
+
+/**
+ * Describes a failed proxy call. The result carries the error's status and its
+ * envelope fields as the body, so batch callers can report it per endpoint.
+ * 
+ * @param endpoint - GitHub API path as requested
+ * @param error - Why the call failed
+ * @param rateLimit - GitHub's rate-limit headers, when a request was made
+ * @returns The failed outcome
+ */
+function failedProxy(endpoint: string, error: AppError, rateLimit: RateLimit | null = null): ProxyOutcome {
+	const data = {
+		code: error.code,
+		message: error.message,
+		...(error.retryAfter !== undefined && { retryAfter: error.retryAfter }),
+		...(error.details && { details: error.details }),
+	};
+	return { result: { endpoint, status: error.status, data, cached: false }, rateLimit, error };
+}
+
+/**
+ * Validates one entry of a batch body.
+ * 
+ * @param item - Raw entry from the request body
+ * @returns The parsed item, or an error message
+ */
+function parseBatchItem(item: unknown): ProxyBatchItem | { error: string } {
+	if (!item || typeof item !== 'object') return { error: 'Each item must be an object: { endpoint, cache? }' };
+	const { endpoint, cache } = item as Record<string, unknown>;
+	if (typeof endpoint !== 'string' || !endpoint) return { error: 'endpoint is required' };
+	if (!endpoint.startsWith('/')) return { error: 'endpoint must start with /' };
+	return { endpoint, cache: cache === true || cache === 'true' };
+}
+
+// ─── Routes ───────────────────────────────────────────────────────────────────
+
+/** Generic GitHub REST proxy with optional caching */
+githubRouter.get('/v2', async (req: Request, res: ExpressResponse) => {
+	const { endpoint, cache: cacheParam } = req.query;
+
+	if (!endpoint || typeof endpoint !== 'string') {
+		throw new ValidationError('endpoint parameter required', { usage: 'GET /api/github/v2?endpoint=/users/username' });
+	}
+	if (!endpoint.startsWith('/')) {
+		throw new ValidationError('endpoint must start with /', { example: '/users/username/repos' });
+	}
+
+	const { result, rateLimit, error } = await proxyRequest(endpoint, cacheParam === 'true');
+
+	// Forward rate-limit headers to client
+	if (rateLimit?.remaining) res.setHeader('X-RateLimit-Remaining', rateLimit.remaining);
+	if (rateLimit?.reset) res.setHeader('X-RateLimit-Reset', rateLimit.reset);
+
+	if (error) throw error;
+	const { data } = result;
+
+	const body = result.cached && data && typeof data === 'object' && !Array.isArray(data)
+		? { ...data, _cached: true, _cacheAge: result.cacheAge, ...(result.revalidated && { _revalidated: true }), ...(result.stale && { _stale: true }) }
+		: data;
+
+	// Uncached responses are still ETagged so clients can revalidate, but must always ask.
+	// Short-lived feeds shouldn't be served days stale by shared caches, so the window is capped at one TTL.
+	const lastUpdated = Date.now() - (result.cacheAge ?? 0) * 1000;
+	const ttlMs = (result.cacheTtl ?? 0) * 1000;
+	const fresh = freshness(lastUpdated, ttlMs, Math.min(ttlMs, CACHE_STALE_GENERAL));
+	return sendCachedJson(req, res, data, body, fresh);
+});
+
+/** Runs several proxy requests in one round-trip */
+githubRouter.post('/v2/batch', async (req: Request, res: ExpressResponse) => {
+	const body: unknown = req.body;
+	const items: unknown = Array.isArray(body) ? body : (body as { requests?: unknown } | undefined)?.requests;
+
+	if (!Array.isArray(items) || items.length === 0) {
+		throw new ValidationError('Request body must be a non-empty array of { endpoint, cache? }', {
+			usage: 'POST /api/github/v2/batch  [{ "endpoint": "/users/octocat", "cache": true }]',
+		});
+	}
+	if (items.length > MAX_BATCH_SIZE) {
+		throw new ValidationError(`At most ${MAX_BATCH_SIZE} endpoints per batch`, { received: items.length });
 	}
+
+	const outcomes = await mapWithConcurrency(items, BATCH_CONCURRENCY, async raw => {
+		const item = parseBatchItem(raw);
+		if ('error' in item) {
+			const endpoint = (raw as { endpoint?: unknown } | null)?.endpoint;
+			return failedProxy(typeof endpoint === 'string' ? endpoint : '', new ValidationError(item.error));
+		}
+		return proxyRequest(item.endpoint, item.cache ?? false);
+	});
+
+	// Forward the tightest rate-limit window seen across the batch
+	const lowest = outcomes
+		.map(o => o.rateLimit)
+		.filter((rl): rl is RateLimit => rl?.remaining != null)
+		.sort((a, b) => Number(a.remaining) - Number(b.remaining))[0];
+	if (lowest?.remaining) res.setHeader('X-RateLimit-Remaining', lowest.remaining);
+	if (lowest?.reset) res.setHeader('X-RateLimit-Reset', lowest.reset);
+
+	const results = outcomes.map(o => o.result);
+	return res.json(results);
 });
 
+/**
+ * Describes how long a cached payload stays valid for HTTP caching headers.
+ * Without a server-side stale window, shared caches may serve the payload for
+ * up to one more TTL while they revalidate with us.
+ * 
+ * @param lastUpdated - When the payload was fetched (ms since epoch)
+ * @param ttlMs - TTL of the cache holding it
+ * @param staleMs - Stale window past the TTL (defaults to the TTL)
+ * @returns Freshness for `applyCacheHeaders` / `sendCachedJson`
+ */
+function freshness(lastUpdated: number, ttlMs: number, staleMs = ttlMs): Freshness {
+	return { lastUpdated, ttlMs, staleMs };
+}
+
+/**
+ * Freshness of stats for HTTP caching headers: soft TTL as `max-age`,
+ * the remaining window up to the hard TTL as `stale-while-revalidate`.
+ * 
+ * @param range - Which stats cache the stats came from
+ * @param lastUpdated - When the stats were fetched (ms since epoch)
+ * @returns Freshness for `applyCacheHeaders` / `sendCachedJson`
+ */
+function statsFreshness(range: StatsRange, lastUpdated: number): Freshness {
+	return (range === 'all' ? ALL_TIME_STATS_SOURCE : STATS_SOURCE).freshness(lastUpdated);
+}
+
+/** Result of a stats lookup, with the cache age when served from the source's cache. */
+interface StatsLookup<T = GitHubStats> {
+	stats: T;
+	/** When the stats were fetched (ms since epoch) */
+	lastUpdated: number;
+	cacheAge?: number;
+	/** Past the soft TTL — a background refresh has been started */
+	stale?: boolean;
+	/** Why fresher data couldn't be fetched (stale only) */
+	warning?: string;
+}
+
+/**
+ * Validates a GitHub login against GitHub's username rules.
+ * 
+ * @param username - Candidate username from the query or path
+ * @returns True if the username is well-formed
+ */
+function isValidUsername(username: unknown): username is string {
+	return typeof username === 'string' && /^[a-zA-Z0-9_-]{1,39}$/.test(username);
+}
+
+/**
+ * Parses the `range` query param of the stats routes.
+ * 
+ * @param value - Raw `req.query.range` value
+ * @returns The range, `year` when absent, or null if the value is invalid
+ */
+function parseStatsRange(value: unknown): StatsRange | null {
+	if (value === undefined || value === 'year') return 'year';
+	return value === 'all' ? 'all' : null;
+}
+
+/**
+ * Fetches stats and writes them to the source's cache. Concurrent calls for
+ * the same key (requests, forced refreshes, background refreshes) share one fetch.
+ * 
+ * @param source - Cache and flights of the stats kind
+ * @param cacheKey - Key of the entry in `source.cache`
+ * @param label - What is fetched, for logs (e.g. `octocat (year)`)
+ * @param fetch - Fetches the stats from GitHub
+ * @returns The fresh stats
+ */
+function fetchAndCacheStats<T>(source: StatsSource<T>, cacheKey: string, label: string, fetch: () => Promise<T>): Promise<T> {
+	const flightKey = `${source.name}:${cacheKey}`;
+	return source.flights.run(flightKey, async () => {
+		console.log(`[${source.log}] fetching via GraphQL: ${label}`);
+		const stats = await fetch();
+		await source.cache.set(cacheKey, stats);
+		statsRefreshErrors.delete(flightKey);
+		console.log(`[${source.log}] cached: ${label}`);
+		return stats;
+	});
+}
+
+/**
+ * Refetches stats for a stale cache entry without blocking the request that
+ * noticed it. Nothing new starts if a fetch for the key is already running.
+ * Failures are remembered so later stale responses can explain why they're stale.
+ * 
+ * @param source - Cache and flights of the stats kind
+ * @param cacheKey - Key of the entry in `source.cache`
+ * @param label - What is fetched, for logs
+ * @param fetch - Fetches the stats from GitHub
+ */
+function refreshStatsInBackground<T>(source: StatsSource<T>, cacheKey: string, label: string, fetch: () => Promise<T>): void {
+	const flightKey = `${source.name}:${cacheKey}`;
+	if (source.flights.has(flightKey)) return;
+
+	console.log(`[${source.log}] background refresh: ${label}`);
+	fetchAndCacheStats(source, cacheKey, label, fetch).catch((err: unknown) => {
+		console.error(`[${source.log}] background refresh failed: ${label}`, err);
+		statsRefreshErrors.set(flightKey, toAppError(err).message);
+	});
+}
+
+/** `Warning` header of responses served from an expired cache entry. */
+const STALE_WARNING_HEADER = '110 - "Response is Stale"';
+
+/**
+ * Describes how old a stale entry is, for the `warning` field.
+ * 
+ * @param lastUpdated - When the stats were fetched (ms since epoch)
+ * @param reason - Why fresher data isn't available
+ * @returns e.g. "Serving stats from 7 hours ago: Cannot reach GitHub API"
+ */
+function staleWarning(lastUpdated: number, reason: string): string {
+	const minutes = Math.floor((Date.now() - lastUpdated) / 60_000);
+	const age = minutes >= 120 ? `${Math.floor(minutes / 60)} hours` : `${minutes} minutes`;
+	return `Serving stats from ${age} ago: ${reason}`;
+}
+
+/**
+ * Returns stats from a source's cache unless a refresh is forced, the way
+ * user, org and repo stats are all served.
+ * 
+ * Entries past the soft TTL are returned immediately (marked `stale`) while a
+ * background refresh runs; only past the hard TTL does the caller wait for GitHub.
+ * If a blocking fetch fails because GitHub is unavailable and a stale entry
+ * exists, the stale entry is returned with a warning instead of the error.
+ * Fresh results are written back to the cache.
+ * 
+ * @param source - Cache and flights of the stats kind
+ * @param cacheKey - Key of the entry in `source.cache`
+ * @param label - What is looked up, for logs (e.g. `octocat (year)`)
+ * @param forceRefresh - Skip the cache and fetch fresh data
+ * @param fetch - Fetches the stats from GitHub
+ * @returns The stats plus cache metadata
+ */
+async function lookupStats<T>(
+	source: StatsSource<T>,
+	cacheKey: string,
+	label: string,
+	forceRefresh: boolean,
+	fetch: () => Promise<T>
+): Promise<StatsLookup<T>> {
+	const cached = await source.cache.peek(cacheKey, true);
+	const cacheAge = cached ? Math.floor((Date.now() - cached.lastUpdated) / 1000) : undefined;
+	if (!forceRefresh) countCacheLookup(source.name, cached);
+
+	if (cached && !forceRefresh) {
+		if (!cached.stale) {
+			console.log(`[cache] HIT ${source.log}:${label}`);
+			return { stats: cached.value, lastUpdated: cached.lastUpdated, cacheAge };
+		}
+
+		console.log(`[cache] STALE ${source.log}:${label}`);
+		refreshStatsInBackground(source, cacheKey, label, fetch);
+		const lastError = statsRefreshErrors.get(`${source.name}:${cacheKey}`);
+		return {
+			stats: cached.value,
+			lastUpdated: cached.lastUpdated,
+			cacheAge,
+			stale: true,
+			...(lastError && { warning: staleWarning(cached.lastUpdated, lastError) }),
+		};
+	}
+
+	try {
+		const stats = await fetchAndCacheStats(source, cacheKey, label, fetch);
+		return { stats, lastUpdated: Date.now() };
+	} catch (err) {
+		const error = toAppError(err);
+		// Upstream outages, an open circuit and a spent rate limit budget all fall back to the cached entry
+		if (!cached || (error.status < 500 && error.status !== 429)) throw err;
+
+		console.warn(`[${source.log}] fetch failed, serving cached: ${label} — ${error.message}`);
+		return {
+			stats: cached.value,
+			lastUpdated: cached.lastUpdated,
+			cacheAge,
+			stale: cached.stale,
+			warning: staleWarning(cached.lastUpdated, error.message),
+		};
+	}
+}
+
+/**
+ * Returns stats for a user. One-year and all-time stats live in separate caches
+ * (`statsCache` / `allTimeStatsCache`) so the slow all-time aggregation never
+ * evicts or shadows the fast one.
+ * 
+ * @param username - Validated GitHub username
+ * @param forceRefresh - Skip the cache and fetch fresh data
+ * @param range - Window for contribution totals and streaks
+ * @returns The stats plus cache metadata
+ */
+function getStats(username: string, forceRefresh: boolean, range: StatsRange = 'year'): Promise<StatsLookup> {
+	const source = range === 'all' ? ALL_TIME_STATS_SOURCE : STATS_SOURCE;
+	return lookupStats(source, `stats_${username.toLowerCase()}`, `${username} (${range})`, forceRefresh, () => fetchGitHubStats(username, range));
+}
+
+/**
+ * Sends a stats lookup as JSON. Cached stats carry `cacheAge`, plus `stale`,
+ * `warning` and a `Warning` header when past their TTL.
+ * 
+ * @param req - Express request (conditional headers)
+ * @param res - Express response object
+ * @param lookup - Result of `lookupStats`
+ * @param fresh - Freshness for the caching headers
+ * @returns The response
+ */
+function sendStatsLookup<T>(req: Request, res: ExpressResponse, lookup: StatsLookup<T>, fresh: Freshness): ExpressResponse {
+	const { stats, cacheAge, stale, warning } = lookup;
+	const body = cacheAge === undefined
+		? stats
+		: { ...stats, cacheAge, ...(stale && { stale }), ...(warning && { warning }) };
+	if (stale) res.setHeader('Warning', STALE_WARNING_HEADER);
+	return sendCachedJson(req, res, stats, body, fresh);
+}
+
+/** Result of a calendar lookup, with the cache age when served from `contributionsCache`. */
+interface ContributionsLookup {
+	calendar: ContributionCalendar;
+	/** When the calendar was fetched (ms since epoch) */
+	lastUpdated: number;
+	cacheAge?: number;
+}
+
+/**
+ * Parses and validates the `from`/`to` query params of the contributions routes.
+ * Both are inclusive YYYY-MM-DD dates. `to` defaults to today (and is clamped to
+ * it); `from` defaults to one year before `to`, matching GitHub's own window.
+ * 
+ * @param fromParam - Raw `from` query value
+ * @param toParam - Raw `to` query value
+ * @returns The normalized range, or an error message for a 400 response
+ */
+function parseContributionRange(fromParam: unknown, toParam: unknown): { from: string; to: string } | { error: string } {
+	const parse = (value: unknown): string | null | undefined => {
+		const raw = queryString(value);
+		if (raw === undefined || raw === '') return undefined;
+		if (!/^\d{4}-\d{2}-\d{2}$/.test(raw)) return null;
+		const date = new Date(`${raw}T00:00:00Z`);
+		return !Number.isNaN(date.getTime()) && toDateString(date) === raw ? raw : null;
+	};
+
+	const fromRaw = parse(fromParam);
+	const toRaw = parse(toParam);
+	if (fromRaw === null || toRaw === null) return { error: 'from/to must be valid dates in YYYY-MM-DD format' };
+
+	const today = toDateString(new Date());
+	const to = toRaw && toRaw < today ? toRaw : today;
+
+	let from = fromRaw;
+	if (!from) {
+		const start = new Date(`${to}T00:00:00Z`);
+		start.setUTCFullYear(start.getUTCFullYear() - 1);
+		from = toDateString(new Date(start.getTime() + 86400_000));
+	}
+	if (from < CONTRIBUTIONS_EPOCH) from = CONTRIBUTIONS_EPOCH;
+	if (from > to) return { error: 'from must not be after to' };
+
+	return { from, to };
+}
+
+/**
+ * Returns a contribution calendar, preferring `contributionsCache` unless a refresh is forced.
+ * 
+ * @param username - Validated GitHub username
+ * @param from - First day (YYYY-MM-DD)
+ * @param to - Last day (YYYY-MM-DD)
+ * @param forceRefresh - Skip the cache and fetch fresh data
+ * @returns The calendar plus cache metadata
+ */
+async function getContributions(username: string, from: string, to: string, forceRefresh: boolean): Promise<ContributionsLookup> {
+	const cacheKey = `contrib_${username.toLowerCase()}_${from}_${to}`;
+
+	if (!forceRefresh) {
+		const cached = contributionsCache.peek(cacheKey);
+		countCacheLookup('contributions', cached);
+		if (cached) {
+			console.log(`[cache] HIT contributions:${username} ${from}..${to}`);
+			return {
+				calendar: cached.value,
+				lastUpdated: cached.lastUpdated,
+				cacheAge: Math.floor((Date.now() - cached.lastUpdated) / 1000),
+			};
+		}
+	}
+
+	console.log(`[contributions] fetching via GraphQL: ${username} ${from}..${to}`);
+	const calendar = await fetchContributionCalendar(username, from, to);
+	contributionsCache.set(cacheKey, calendar);
+	return { calendar, lastUpdated: Date.now() };
+}
+
+/**
+ * Counts a cache lookup for the metrics. `peek` doesn't count hits and misses
+ * itself, so the routes that read a cache report what they found.
+ *
+ * @param cache - Cache name, as listed by `/v2/cache/status`
+ * @param record - What `peek` returned
+ */
+function countCacheLookup(cache: string, record: { stale: boolean } | null): void {
+	cacheLookups.inc({ cache, result: !record ? 'miss' : record.stale ? 'stale' : 'hit' });
+}
+
+/**
+ * Reads a single string value from a parsed query parameter.
+ * 
+ * @param value - Raw `req.query` value
+ * @returns The string, or undefined for missing/array/object values
+ */
+function queryString(value: unknown): string | undefined {
+	return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Parses a comma-separated query parameter into a normalized set.
+ * 
+ * @param value - Raw `req.query` value (e.g. `stars,prs`)
+ * @returns Lower-cased, trimmed, non-empty entries
+ */
+function queryList(value: unknown): Set<string> {
+	const raw = queryString(value);
+	if (!raw) return new Set();
+	return new Set(raw.split(',').map(v => v.trim().toLowerCase()).filter(Boolean));
+}
+
 /**
  * Shared handler for GitHub stats requests.
  * Manages caching logic and orchestrates the data fetching process.
+ * Responses carry an ETag of the stats and answer `If-None-Match` with `304`.
  * 
  * @param username - GitHub username (validated against standard regex)
  * @param force - If 'true', skips the cache and fetches fresh data
+ * @param rangeParam - `year` (default) or `all` for all-time totals and streaks
+ * @param req - Express request (conditional headers)
  * @param res - Express response object
  * @returns JSON response with stats or error
  */
 async function handleStatsRequest(
 	username: string | undefined,
 	force: string | undefined,
+	rangeParam: unknown,
+	req: Request,
 	res: ExpressResponse
 ): Promise<ExpressResponse> {
-	if (!username || typeof username !== 'string' || !/^[a-zA-Z0-9_-]{1,39}$/.test(username)) {
-		return res.status(400).json({
-			error: 'Valid GitHub username required',
-			usage: 'GET /api/github/v2/stats?username=<username>',
-		});
+	if (!isValidUsername(username)) {
+		throw new ValidationError('Valid GitHub username required', { usage: 'GET /api/github/v2/stats?username=<username>' });
 	}
 
-	const cacheKey = `stats_${username.toLowerCase()}`;
-	const forceRefresh = force === 'true';
+	const range = parseStatsRange(rangeParam);
+	if (!range) {
+		throw new ValidationError('range must be "year" or "all"', { usage: 'GET /api/github/v2/stats?username=<username>&range=all' });
+	}
 
-	if (!forceRefresh) {
-		const cached = statsCache.peek(cacheKey);
-		if (cached) {
-			console.log(`[cache] HIT stats:${username}`);
-			return res.json({
-				...cached.value,
-				cacheAge: Math.floor((Date.now() - cached.lastUpdated) / 1000),
-			});
+	const lookup = await getStats(username, force === 'true', range);
+	return sendStatsLookup(req, res, lookup, statsFreshness(range, lookup.lastUpdated));
+}
+
+githubRouter.get('/v2/stats', async (req, res) => handleStatsRequest(req.query.username as string | undefined, req.query.force as string | undefined, req.query.range, req, res));
+githubRouter.get('/v2/stats/:username', async (req, res) => handleStatsRequest(req.params.username, req.query.force as string | undefined, req.query.range, req, res));
+
+/**
+ * Resolves the card theme from the standard `theme` / `<key>_color` query params.
+ * 
+ * @param q - Parsed request query
+ * @returns The theme with any valid color overrides applied
+ */
+function themeFromQuery(q: Request['query']): CardTheme {
+	return resolveTheme(queryString(q.theme), {
+		title: queryString(q.title_color),
+		text: queryString(q.text_color),
+		icon: queryString(q.icon_color),
+		bg: queryString(q.bg_color),
+		border: queryString(q.border_color),
+	});
+}
+
+/**
+ * Shared handler for SVG cards rendered from a user's stats.
+ * Validates the username, serves stats from `statsCache` when possible and sets
+ * caching headers (ETag of the rendered SVG, `max-age` of the remaining stats TTL).
+ * Errors render as an SVG error card.
+ * 
+ * @param req - Express request (`:username` param, theme query params)
+ * @param res - Express response object
+ * @param render - Builds the SVG from the stats and resolved theme
+ * @returns SVG response
+ */
+async function handleStatsCardRequest(
+	req: Request,
+	res: ExpressResponse,
+	render: (stats: GitHubStats, theme: CardTheme) => string
+): Promise<ExpressResponse> {
+	const username = req.params['username'];
+	const theme = themeFromQuery(req.query);
+
+	res.type('image/svg+xml; charset=utf-8');
+
+	if (!isValidUsername(username)) {
+		res.setHeader('Cache-Control', 'no-store');
+		return res.status(400).send(renderErrorCard('Valid GitHub username required', theme));
+	}
+
+	try {
+		const range = parseStatsRange(req.query.range) ?? 'year';
+		const { stats, lastUpdated } = await getStats(username, false, range);
+		const svg = render(stats, theme);
+		if (applyCacheHeaders(req, res, svg, statsFreshness(range, lastUpdated))) return res.status(304).end();
+		return res.send(svg);
+	} catch (err) {
+		const error = toAppError(err);
+		if (error.status >= 500) console.error('[card] error:', err);
+		res.setHeader('Cache-Control', 'no-store');
+		return res.status(error.status).send(renderErrorCard(error.message, theme));
+	}
+}
+
+/** SVG stats card for embedding in READMEs and portfolio pages */
+githubRouter.get('/v2/stats/:username/card.svg', async (req, res) => handleStatsCardRequest(req, res, (stats, theme) =>
+	renderStatsCard(stats, {
+		theme,
+		hide: queryList(req.query.hide),
+		hideBorder: req.query.hide_border === 'true',
+		hideTitle: req.query.hide_title === 'true',
+		customTitle: queryString(req.query.custom_title),
+	})
+));
+
+/** SVG top-languages card (bar, compact or donut layout) */
+githubRouter.get('/v2/stats/:username/languages.svg', async (req, res) => handleStatsCardRequest(req, res, (stats, theme) => {
+	const layout = queryString(req.query.layout) as LanguagesLayout | undefined;
+	const count = Number.parseInt(queryString(req.query.langs_count) ?? '', 10);
+	return renderLanguagesCard(stats.languageBytes, {
+		theme,
+		layout: layout && LANGUAGE_LAYOUTS.includes(layout) ? layout : 'bar',
+		langsCount: Number.isFinite(count) ? Math.min(Math.max(count, 1), 20) : 5,
+		hide: queryList(req.query.hide),
+		hideBorder: req.query.hide_border === 'true',
+		hideTitle: req.query.hide_title === 'true',
+		customTitle: queryString(req.query.custom_title),
+	});
+}));
+
+/** Per-day contribution calendar for an arbitrary date range */
+githubRouter.get('/v2/contributions/:username', async (req, res) => {
+	const { username } = req.params;
+	if (!isValidUsername(username)) {
+		throw new ValidationError('Valid GitHub username required', { usage: 'GET /api/github/v2/contributions/:username?from=YYYY-MM-DD&to=YYYY-MM-DD' });
+	}
+
+	const range = parseContributionRange(req.query.from, req.query.to);
+	if ('error' in range) {
+		throw new ValidationError(range.error, { usage: 'GET /api/github/v2/contributions/:username?from=YYYY-MM-DD&to=YYYY-MM-DD' });
+	}
+
+	const { calendar, lastUpdated, cacheAge } = await getContributions(username, range.from, range.to, req.query.force === 'true');
+	const body = cacheAge === undefined ? calendar : { ...calendar, cacheAge };
+	return sendCachedJson(req, res, calendar, body, freshness(lastUpdated, CACHE_TTL_CONTRIBUTIONS));
+});
+
+/** GitHub-style contribution heatmap SVG, optionally for a single calendar year */
+githubRouter.get('/v2/contributions/:username/heatmap.svg', async (req, res) => {
+	const { username } = req.params;
+	const scale = resolveHeatmapScale(queryString(req.query.scale));
+	const errorTheme = themeFromQuery(req.query);
+
+	res.type('image/svg+xml; charset=utf-8');
+
+	const sendError = (status: number, message: string) => {
+		res.setHeader('Cache-Control', 'no-store');
+		return res.status(status).send(renderErrorCard(message, errorTheme));
+	};
+
+	if (!isValidUsername(username)) return sendError(400, 'Valid GitHub username required');
+
+	let year: number | undefined;
+	const yearParam = queryString(req.query.year);
+	if (yearParam) {
+		year = Number(yearParam);
+		if (!/^\d{4}$/.test(yearParam) || year < 2008 || year > new Date().getUTCFullYear()) {
+			return sendError(400, 'year must be between 2008 and the current year');
 		}
 	}
 
-	console.log(`[stats] fetching via GraphQL: ${username}`);
+	const range = year
+		? parseContributionRange(`${year}-01-01`, `${year}-12-31`)
+		: parseContributionRange(req.query.from, req.query.to);
+	if ('error' in range) return sendError(400, range.error);
 
 	try {
-		const stats = await fetchGitHubStats(username);
-		statsCache.set(cacheKey, stats);
-		console.log(`[stats] cached: ${username}`);
-		return res.json(stats);
-
+		const { calendar, lastUpdated } = await getContributions(username, range.from, range.to, false);
+		const svg = renderHeatmap(calendar, {
+			scale,
+			title: queryString(req.query.custom_title) ?? heatmapTitle(calendar, year),
+			hideBorder: req.query.hide_border === 'true',
+			hideTitle: req.query.hide_title === 'true',
+			hideLegend: req.query.hide_legend === 'true',
+		});
+		if (applyCacheHeaders(req, res, svg, freshness(lastUpdated, CACHE_TTL_CONTRIBUTIONS))) return res.status(304).end();
+		return res.send(svg);
 	} catch (err) {
-		console.error('[stats] error:', err);
-		if (!(err instanceof Error)) {
-			return res.status(500).json({ error: 'Unknown error', timestamp: new Date().toISOString() });
-		}
+		const error = toAppError(err);
+		if (error.status >= 500) console.error('[heatmap] error:', err);
+		return sendError(error.status, error.message);
+	}
+});
+
+/** Side-by-side comparison of several users with per-metric rankings */
+githubRouter.get('/v2/compare', async (req, res) => {
+	const usernames = compareUsernames(req.query.users);
 
-		if (err.message.includes('not found')) return res.status(404).json({ error: err.message });
-		if (err.message.includes('authentication failed')) return res.status(401).json({ error: err.message });
-		if (err.message.includes('ENOTFOUND') || err.message.includes('fetch failed')) {
-			return res.status(503).json({ error: 'Cannot reach GitHub API', details: err.message });
+	if (usernames.length < 2 || usernames.length > MAX_COMPARE_USERS) {
+		throw new ValidationError(`Between 2 and ${MAX_COMPARE_USERS} comma-separated usernames required`, { usage: 'GET /api/github/v2/compare?users=<a>,<b>,<c>&range=<year|all>' });
+	}
+
+	const range = parseStatsRange(req.query.range);
+	if (!range) {
+		throw new ValidationError('range must be "year" or "all"', { usage: 'GET /api/github/v2/compare?users=<a>,<b>,<c>&range=<year|all>' });
+	}
+
+	// Cached users resolve immediately inside getStats; only misses hit GitHub
+	const users = await mapWithConcurrency(usernames, COMPARE_CONCURRENCY, async (username): Promise<CompareEntry> => {
+		if (!isValidUsername(username)) {
+			return { username, ok: false, status: 400, code: 'VALIDATION_ERROR', error: 'Invalid GitHub username' };
 		}
-		return res.status(500).json({ error: 'Failed to fetch GitHub stats', details: err.message });
+		try {
+			const { stats, cacheAge } = await getStats(username, false, range);
+			return cacheAge === undefined
+				? { username, ok: true, stats }
+				: { username, ok: true, stats, cacheAge };
+		} catch (err) {
+			const error = toAppError(err);
+			if (error.status >= 500) console.error(`[compare] ${username}:`, err);
+			return { username, ok: false, status: error.status, code: error.code, error: error.message };
+		}
+	});
+
+	const resolved = users.flatMap(u => (u.ok ? [u.stats] : []));
+
+	const comparison: GitHubComparison = {
+		users,
+		rankings: rankMetrics(resolved),
+		languages: languageOverlap(resolved),
+		range,
+		comparedAt: new Date().toISOString(),
+	};
+	return res.json(comparison);
+});
+
+/** Aggregated statistics for a GitHub organization */
+githubRouter.get('/v2/orgs/:org/stats', async (req, res) => {
+	const { org } = req.params;
+	if (!isValidUsername(org)) {
+		throw new ValidationError('Valid GitHub organization login required', { usage: 'GET /api/github/v2/orgs/:org/stats' });
 	}
-}
 
-githubRouter.get('/v2/stats', async (req, res) => handleStatsRequest(req.query.username as string | undefined, req.query.force as string | undefined, res));
-githubRouter.get('/v2/stats/:username', async (req, res) => handleStatsRequest(req.params.username, req.query.force as string | undefined, res));
+	const lookup = await lookupStats(ORG_STATS_SOURCE, `org_${org.toLowerCase()}`, org, req.query.force === 'true', () => fetchOrgStats(org));
+	return sendStatsLookup(req, res, lookup, ORG_STATS_SOURCE.freshness(lookup.lastUpdated));
+});
 
-/** Cache status endpoint */
-githubRouter.get('/v2/cache/status', (_req, res) => {
-	const gs = generalCache.stats();
-	const ss = statsCache.stats();
+/** Normalized summary of a single repository */
+githubRouter.get('/v2/repos/:owner/:repo/stats', async (req, res) => {
+	const { owner, repo } = req.params;
+	if (!isValidUsername(owner) || !/^[a-zA-Z0-9_.-]{1,100}$/.test(repo) || repo === '.' || repo === '..') {
+		throw new ValidationError('Valid repository owner and name required', { usage: 'GET /api/github/v2/repos/:owner/:repo/stats' });
+	}
+
+	const cacheKey = `repo_${owner.toLowerCase()}/${repo.toLowerCase()}`;
+	const lookup = await lookupStats(REPO_STATS_SOURCE, cacheKey, `${owner}/${repo}`, req.query.force === 'true', () => fetchRepoStats(owner, repo));
+	return sendStatsLookup(req, res, lookup, REPO_STATS_SOURCE.freshness(lookup.lastUpdated));
+});
+
+/**
+ * Formats a cache's counters for the status endpoint.
+ * 
+ * @param cache - An in-memory `LRUCache` or a `CacheStore`
+ * @param ttl - Human-readable TTL label
+ * @param includeKeys - Whether to list the cached keys
+ * @returns Summary object for JSON output
+ */
+async function summarizeCache(
+	cache: { backend?: CacheBackend; stats(): CacheStats | Promise<CacheStats> },
+	ttl: string,
+	includeKeys = false
+) {
+	const cs = await cache.stats();
+	return {
+		backend: cache.backend ?? 'memory',
+		size: cs.size,
+		capacity: cs.capacity,
+		bytes: cs.bytes,
+		...(cs.maxBytes !== undefined && { maxBytes: cs.maxBytes }),
+		hits: cs.hits,
+		misses: cs.misses,
+		evictions: cs.evictions,
+		hitRate: cs.hits + cs.misses > 0 ? `${((cs.hits / (cs.hits + cs.misses)) * 100).toFixed(1)}%` : 'n/a',
+		ttl,
+		...(includeKeys && { keys: cs.keys }),
+	};
+}
+
+/** Cache status endpoint — cached keys (usernames, paths) are only listed for admins */
+githubRouter.get('/v2/cache/status', optionalAdmin, async (_req, res) => {
+	const listKeys = res.locals.isAdmin === true;
+	res.setHeader('Cache-Control', 'no-store');
 	res.json({
 		general: {
-			size: gs.size,
-			capacity: gs.capacity,
-			hits: gs.hits,
-			misses: gs.misses,
-			evictions: gs.evictions,
-			hitRate: gs.hits + gs.misses > 0 ? `${((gs.hits / (gs.hits + gs.misses)) * 100).toFixed(1)}%` : 'n/a',
-			ttl: `${CACHE_TTL_GENERAL / 86400_000} days`,
+			...await summarizeCache(generalCache, `${CACHE_TTL_GENERAL / 86400_000} days (default, varies by endpoint)`),
+			revalidations: proxyRevalidations,
 		},
-		stats: {
-			size: ss.size,
-			capacity: ss.capacity,
-			hits: ss.hits,
-			misses: ss.misses,
-			evictions: ss.evictions,
-			hitRate: ss.hits + ss.misses > 0 ? `${((ss.hits / (ss.hits + ss.misses)) * 100).toFixed(1)}%` : 'n/a',
-			ttl: `${CACHE_TTL_STATS / 3600_000} hours`,
-			keys: ss.keys,
+		stats: await summarizeCache(statsCache, `${CACHE_TTL_STATS / 3600_000} hours (stale until ${(CACHE_TTL_STATS + CACHE_STALE_STATS) / 3600_000} hours)`, listKeys),
+		allTimeStats: await summarizeCache(allTimeStatsCache, `${CACHE_TTL_STATS_ALL_TIME / 3600_000} hours (stale until ${(CACHE_TTL_STATS_ALL_TIME + CACHE_STALE_STATS_ALL_TIME) / 3600_000} hours)`, listKeys),
+		orgStats: await summarizeCache(orgStatsCache, `${CACHE_TTL_ORG_STATS / 3600_000} hours (stale until ${(CACHE_TTL_ORG_STATS + CACHE_STALE_ORG_STATS) / 3600_000} hours)`, listKeys),
+		repoStats: await summarizeCache(repoStatsCache, `${CACHE_TTL_REPO_STATS / 3600_000} hours (stale until ${(CACHE_TTL_REPO_STATS + CACHE_STALE_REPO_STATS) / 3600_000} hours)`, listKeys),
+		contributions: await summarizeCache(contributionsCache, `${CACHE_TTL_CONTRIBUTIONS / 3600_000} hours`),
+		coalescing: {
+			stats: statsFlights.stats(),
+			orgStats: orgStatsFlights.stats(),
+			repoStats: repoStatsFlights.stats(),
+			proxy: proxyFlights.stats(),
 		},
 	});
 });
 
-/** Clear all caches */
-githubRouter.delete('/v2/cache', (_req, res) => {
-	const g = generalCache.clear();
-	const s = statsCache.clear();
-	res.json({ message: 'Cache cleared', general: g, stats: s, timestamp: new Date().toISOString() });
+/** GitHub rate limit budgets, as last reported upstream (no request is made to GitHub) */
+githubRouter.get('/v2/ratelimit', (_req, res) => {
+	const pool = getTokenPool();
+	res.setHeader('Cache-Control', 'no-store');
+	res.json({
+		credentials: pool.size > 0 ? `${pool.activeTokens().length} of ${pool.size} tokens` : 'anonymous',
+		reservePercent: budgetReservePercent(),
+		resources: getRateLimitTracker().snapshot(upstreamTokens()),
+		timestamp: new Date().toISOString(),
+	});
 });
 
-/** Clear specific cache entry */
-githubRouter.delete('/v2/cache/:key', (req, res) => {
+/** Clear all caches (admin) */
+githubRouter.delete('/v2/cache', requireAdmin, async (_req, res) => {
+	const g = await generalCache.clear();
+	const s = await statsCache.clear();
+	const a = await allTimeStatsCache.clear();
+	const o = await orgStatsCache.clear();
+	const r = await repoStatsCache.clear();
+	const c = contributionsCache.clear();
+	res.json({ message: 'Cache cleared', general: g, stats: s, allTimeStats: a, orgStats: o, repoStats: r, contributions: c, timestamp: new Date().toISOString() });
+});
+
+/** Clear specific cache entry (admin) */
+githubRouter.delete('/v2/cache/:key', requireAdmin, async (req: Request<{ key: string }>, res: ExpressResponse) => {
 	const key = req.params['key'];
 	if (!key) {
-		return res.status(400).json({ error: 'Cache key required' });
+		throw new ValidationError('Cache key required');
+	}
+	const d1 = await generalCache.delete(`/${key}`) || await generalCache.delete(key);
+	const d2 = await statsCache.delete(`stats_${key}`) || await statsCache.delete(key);
+	const d2a = await allTimeStatsCache.delete(`stats_${key}`) || await allTimeStatsCache.delete(key);
+	const d4 = await orgStatsCache.delete(`org_${key}`) || await orgStatsCache.delete(key);
+	const d5 = await repoStatsCache.delete(`repo_${key}`) || await repoStatsCache.delete(key);
+
+	// Contribution calendars are keyed per range — drop every range for the user
+	const contribPrefix = `contrib_${key.toLowerCase()}_`;
+	let d3 = contributionsCache.delete(key);
+	for (const k of contributionsCache.stats().keys) {
+		if (k.startsWith(contribPrefix)) d3 = contributionsCache.delete(k) || d3;
 	}
-	const d1 = generalCache.delete(`/${key}`) || generalCache.delete(key);
-	const d2 = statsCache.delete(`stats_${key}`) || statsCache.delete(key);
 
-	if (!d1 && !d2) {
-		return res.status(404).json({ error: `No cache entry for: ${key}` });
+	if (!d1 && !d2 && !d2a && !d3 && !d4 && !d5) {
+		throw new AppError(404, 'CACHE_ENTRY_NOT_FOUND', `No cache entry for: ${key}`);
 	}
 	return res.json({ message: `Cache cleared for: ${key}`, timestamp: new Date().toISOString() });
 });
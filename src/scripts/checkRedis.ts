@@ -0,0 +1,99 @@
+/**
+ * Redis Backend Check
+ *
+ * Exercises `RespClient` and `RedisStore` against a live Redis-protocol server:
+ * connection setup (AUTH / SELECT from the URL), GET/SET, per-entry expiry,
+ * SCAN-based listing and stats, DEL and clear. Keys go under a throwaway
+ * prefix and are removed afterwards.
+ *
+ *   redis-server --port 6390 &
+ *   REDIS_URL=redis://127.0.0.1:6390 npm run check:redis
+ *
+ * Exits non-zero on the first failed check.
+ */
+import assert from 'assert/strict';
+import dotenv from 'dotenv';
+import { RedisStore, redisClient } from '../cache/redisStore';
+
+dotenv.config();
+
+const url = process.env.REDIS_URL?.trim() || 'redis://127.0.0.1:6379';
+process.env.REDIS_KEY_PREFIX = `gh-api-check-${process.pid}:`;
+
+/** The client's socket doesn't hold the process open, so this timer does — and ends a hung check. */
+const CHECK_TIMEOUT_MS = 30_000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Runs one named check, logging its outcome.
+ */
+async function check(name: string, fn: () => Promise<void>): Promise<void> {
+	await fn();
+	console.log(`✅ ${name}`);
+}
+
+async function main(): Promise<void> {
+	const parsed = new URL(url);
+	console.log(`[redis] checking ${parsed.protocol}//${parsed.host}${parsed.pathname}${parsed.password ? ' (with AUTH)' : ''}`);
+
+	const client = redisClient(url);
+	const store = new RedisStore<{ n: number }>(url, 'check', { capacity: 10, ttlMs: 60_000, staleMs: 1_000 });
+
+	await check('connection setup and PING', async () => {
+		// AUTH / SELECT failures are logged by the client; PING would then fail too
+		assert.equal(await client.command('PING'), 'PONG');
+	});
+
+	await check('SELECT picks the database from the URL', async () => {
+		const db = parsed.pathname.slice(1) || '0';
+		const info = await client.command('CLIENT', 'INFO');
+		assert.ok(typeof info === 'string' && info.includes(` db=${db} `), `expected db=${db} in: ${String(info)}`);
+	});
+
+	await check('set, get and peek', async () => {
+		await store.set('a', { n: 1 });
+		assert.deepEqual(await store.get('a'), { n: 1 });
+		const record = await store.peek('a');
+		assert.equal(record?.stale, false);
+		assert.equal(record?.ttlMs, 60_000);
+		assert.equal(await store.get('missing'), null);
+	});
+
+	await check('entries go stale after their TTL and expire after the stale window', async () => {
+		await store.set('short', { n: 2 }, { ttlMs: 200 });
+		await sleep(400);
+		assert.equal(await store.get('short'), null);
+		assert.equal((await store.peek('short', true))?.stale, true);
+		await sleep(1_000);
+		assert.equal(await store.peek('short', true), null);
+	});
+
+	await check('stats lists keys with SCAN', async () => {
+		for (let i = 0; i < 150; i++) await store.set(`bulk${i}`, { n: i });
+		const stats = await store.stats();
+		assert.equal(stats.size, 151);
+		assert.ok(stats.keys.includes('a') && stats.keys.includes('bulk149'));
+		assert.ok(stats.bytes > 0);
+	});
+
+	await check('delete and clear', async () => {
+		assert.equal(await store.delete('a'), true);
+		assert.equal(await store.delete('a'), false);
+		assert.equal(await store.clear(), 150);
+		assert.equal((await store.stats()).size, 0);
+	});
+}
+
+setTimeout(() => {
+	console.error(`❌ timed out after ${CHECK_TIMEOUT_MS / 1000}s`);
+	process.exit(1);
+}, CHECK_TIMEOUT_MS);
+
+main().then(
+	() => process.exit(0),
+	err => {
+		console.error('❌', err instanceof Error ? err.message : err);
+		process.exit(1);
+	}
+);
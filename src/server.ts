@@ -6,7 +6,14 @@ import cors from 'cors';
 import helmet from 'helmet';
 import dotenv from 'dotenv';
 import { githubRouter } from './routes/github';
+import { closeCacheStores } from './cache/cacheStore';
+import { circuitBreakerStatus } from './github/circuitBreaker';
+import { getTokenPool } from './github/tokenPool';
+import { AppError } from './errors';
 import { errorHandler } from './middleware/errorHandler';
+import { metricsEndpoint, requestMetrics } from './middleware/metrics';
+import { trustProxySetting } from './middleware/rateLimit';
+import { requestId } from './middleware/requestId';
 import { requestLogger } from './middleware/requestLogger';
 
 dotenv.config();
@@ -18,8 +25,20 @@ const app = express();
  */
 const PORT = process.env.PORT || 3001;
 
+/**
+ * Behind a reverse proxy, trust its `X-Forwarded-For` (`TRUST_PROXY=1` for one hop)
+ * so per-client rate limits see the client's address rather than the proxy's.
+ */
+app.set('trust proxy', trustProxySetting(false));
+
 // ─── Security & Middleware ────────────────────────────────────────────────────
 
+// Tag every response (errors included) with an ID for correlating it with logs
+app.use(requestId);
+
+// Count and time every request for the Prometheus metrics
+app.use(requestMetrics);
+
 /**
  * Configure Helmet with a custom Content Security Policy.
  * This allows the test UI (index.html) to function while protecting the API.
@@ -64,7 +83,7 @@ app.use(requestLogger);
 app.use(express.static('.', {
 	index: 'index.html',
 	dotfiles: 'ignore',
-	etag: false,
+	etag: true,
 	extensions: ['html', 'js', 'css'],
 	maxAge: '1d',
 	redirect: false,
@@ -81,7 +100,9 @@ app.get('/health', (_req, res) => {
 		uptime: Math.floor(process.uptime()),
 		version: process.env.npm_package_version ?? '3.0.0',
 		environment: process.env.NODE_ENV ?? 'development',
-		githubToken: process.env.GITHUB_TOKEN ? 'configured' : 'missing (rate limited to 60 req/hr)',
+		githubToken: getTokenPool().size > 0 ? 'configured' : 'missing (rate limited to 60 req/hr)',
+		tokenPool: getTokenPool().status(),
+		circuits: circuitBreakerStatus(),
 		memory: {
 			usedMB: Math.round(process.memoryUsage().heapUsed / 1024 / 1024),
 			totalMB: Math.round(process.memoryUsage().heapTotal / 1024 / 1024),
@@ -89,6 +110,12 @@ app.get('/health', (_req, res) => {
 	});
 });
 
+/**
+ * Prometheus metrics endpoint.
+ * Request, upstream, cache and GitHub rate limit metrics in the text exposition format.
+ */
+app.get('/metrics', metricsEndpoint);
+
 /**
  * API Discovery endpoint.
  * Returns a summary of available endpoints, improvements in v3, and compatibility notes.
@@ -100,12 +127,26 @@ app.get('/api', (_req, res) => {
 		description: 'GitHub GraphQL + REST proxy with LRU cache and comprehensive stats',
 		endpoints: {
 			health: 'GET /health',
+			metrics: 'GET /metrics  (Prometheus text format)',
 			proxy: 'GET /api/github/v2?endpoint=<github-path>&cache=<true|false>',
-			stats: 'GET /api/github/v2/stats?username=<username>&force=<true|false>',
+			batch: 'POST /api/github/v2/batch  [{ endpoint, cache? }, ...]',
+			stats: 'GET /api/github/v2/stats?username=<username>&force=<true|false>&range=<year|all>',
 			statsAlt: 'GET /api/github/v2/stats/:username',
-			cacheStatus: 'GET /api/github/v2/cache/status',
-			cacheClear: 'DELETE /api/github/v2/cache',
-			cacheClearKey: 'DELETE /api/github/v2/cache/:key',
+			compare: 'GET /api/github/v2/compare?users=<a>,<b>,<c>&range=<year|all>',
+			orgStats: 'GET /api/github/v2/orgs/:org/stats?force=<true|false>',
+			repoStats: 'GET /api/github/v2/repos/:owner/:repo/stats?force=<true|false>',
+			statsCard: 'GET /api/github/v2/stats/:username/card.svg?theme=<name>&hide=<fields>',
+			languagesCard: 'GET /api/github/v2/stats/:username/languages.svg?layout=<bar|compact|donut>&langs_count=<n>',
+			contributions: 'GET /api/github/v2/contributions/:username?from=<YYYY-MM-DD>&to=<YYYY-MM-DD>',
+			heatmap: 'GET /api/github/v2/contributions/:username/heatmap.svg?year=<YYYY>&scale=<name>',
+			rateLimit: 'GET /api/github/v2/ratelimit',
+			cacheStatus: 'GET /api/github/v2/cache/status  (keys listed for admin only)',
+			cacheClear: 'DELETE /api/github/v2/cache  [admin]',
+			cacheClearKey: 'DELETE /api/github/v2/cache/:key  [admin]',
+		},
+		admin: {
+			routes: ['cacheClear', 'cacheClearKey', 'cacheStatus (key listing)'],
+			auth: 'Authorization: Bearer <ADMIN_TOKEN>, or X-Admin-Timestamp + X-Admin-Signature (HMAC-SHA256)',
 		},
 		improvements: [
 			'GraphQL for stats — 1 round-trip vs N+1 REST calls',
@@ -130,13 +171,14 @@ app.use('/api/github', githubRouter);
 /**
  * Global 404 handler for unmatched routes.
  */
-app.use((req, res) => {
-	res.status(404).json({
-		error: 'Route not found',
-		path: req.originalUrl,
-		method: req.method,
-		suggestion: 'See /api for available endpoints',
-	});
+app.use((req, res, next) => {
+	next(new AppError(404, 'ROUTE_NOT_FOUND', 'Route not found', {
+		details: {
+			path: req.originalUrl,
+			method: req.method,
+			suggestion: 'See /api for available endpoints',
+		},
+	}));
 });
 
 // Mount error handler
@@ -144,8 +186,18 @@ app.use(errorHandler);
 
 // ─── Process Lifecycle Handlers ───────────────────────────────────────────────
 
-process.on('SIGTERM', () => { console.log('SIGTERM — shutting down'); process.exit(0); });
-process.on('SIGINT', () => { console.log('SIGINT — shutting down'); process.exit(0); });
+/**
+ * Exits once pending cache writes (debounced by the `file` backend) are on disk.
+ */
+function shutdown(signal: string): void {
+	console.log(`${signal} — shutting down`);
+	closeCacheStores()
+		.catch(err => console.error('[cache] could not write pending changes:', err))
+		.finally(() => process.exit(0));
+}
+
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));
 process.on('uncaughtException', err => { console.error('Uncaught exception:', err); process.exit(1); });
 process.on('unhandledRejection', (r) => { console.error('Unhandled rejection:', r); process.exit(1); });
 
@@ -154,7 +206,7 @@ process.on('unhandledRejection', (r) => { console.error('Unhandled rejection:',
  */
 app.listen(PORT, () => {
 	console.log(`\n🚀 GitHub API Backend v3 — port ${PORT}`);
-	console.log(`🔑 Token: ${process.env.GITHUB_TOKEN ? '✅ configured' : '❌ missing'}`);
+	console.log(`🔑 Tokens: ${getTokenPool().size > 0 ? `✅ ${getTokenPool().size} configured` : '❌ missing'}`);
 	console.log(`📊 Stats:  http://localhost:${PORT}/api/github/v2/stats?username=amitxd75`);
 	console.log(`🗂️  Cache:  http://localhost:${PORT}/api/github/v2/cache/status\n`);
 });
@@ -7,6 +7,11 @@
  * Domain Categories:
  * - Cache: Storage structures for the LRU system.
  * - Stats: Aggregated data models for user-facing statistics.
+ * - Comparison: Multi-user rankings and language overlap.
+ * - Organizations: Aggregated data models for organization statistics.
+ * - Repositories: Normalized single-repository summaries.
+ * - Contributions: Per-day contribution calendar models.
+ * - Proxy: Results of the generic REST proxy and its batch variant.
  * - REST API: Type definitions for GitHub's REST API responses.
  * - GraphQL: Schemas for the high-efficiency GraphQL engine.
  */
@@ -25,8 +30,28 @@ export interface CacheEntry<T = unknown> {
 	hits: number;
 }
 
+/**
+ * A proxied GitHub REST body stored with the validators needed to revalidate it
+ * through a conditional request once it expires.
+ */
+export interface CachedResponse {
+	/** Parsed JSON body */
+	body: unknown;
+	/** Upstream `ETag` header, sent back as `If-None-Match` */
+	etag: string | null;
+	/** Upstream `Last-Modified` header, sent back as `If-Modified-Since` */
+	lastModified: string | null;
+}
+
 // ─── Stats ────────────────────────────────────────────────────────────────────
 
+/**
+ * Time window covered by the contribution totals and streaks in `GitHubStats`.
+ * - `year`: GitHub's default trailing one-year window (fast, single query).
+ * - `all`: every year since the account was created.
+ */
+export type StatsRange = 'year' | 'all';
+
 /**
  * Comprehensive aggregated statistics for a GitHub user.
  * This is the primary data model returned by the /stats endpoint.
@@ -71,21 +96,160 @@ export interface GitHubStats {
 	/** Number of repositories the user has contributed to (forks) */
 	contributedTo: number;
 
-	/** Total commits in the last year */
+	/** Window covered by the contribution totals and streaks below */
+	range: StatsRange;
+	/** Total commits in the stats range */
 	totalCommits: number;
-	/** Total pull requests in the last year */
+	/** Total pull requests in the stats range */
 	totalPRs: number;
-	/** Total issues opened in the last year */
+	/** Total issues opened in the stats range */
 	totalIssues: number;
 	/** Current consecutive days with contributions */
 	currentStreak: number;
-	/** All-time highest consecutive days with contributions */
+	/** Highest consecutive days with contributions within the stats range (all-time only for `range: 'all'`) */
 	longestStreak: number;
 
 	/** Mapping of language names to their percentage usage across repos */
 	topLanguages: Record<string, number>;
+	/** Total bytes of code per language across owned repos (unrounded source of `topLanguages`) */
+	languageBytes: Record<string, number>;
+	/** Number of repositories with activity in the last 30 days */
+	recentRepoActivity: number;
+	/** Number of owned repositories aggregated into the star/fork/language/activity figures */
+	reposAggregated: number;
+	/** False if the repository page cap stopped aggregation before every owned repo was counted */
+	reposComplete: boolean;
+
+	/** ISO timestamp of when this data was fetched from GitHub */
+	lastUpdated: string;
+	/** Age of the cached data in seconds (if served from cache) */
+	cacheAge?: number;
+}
+
+// ─── Comparison ───────────────────────────────────────────────────────────────
+
+/**
+ * Per-user result in a comparison. Failed lookups carry an error instead of stats
+ * so one bad username doesn't fail the whole comparison.
+ */
+export type CompareEntry =
+	| { username: string; ok: true; stats: GitHubStats; cacheAge?: number }
+	| { username: string; ok: false; status: number; code: string; error: string };
+
+/**
+ * One user's position for a single compared metric.
+ */
+export interface MetricRank {
+	/** GitHub login/username */
+	username: string;
+	/** The user's value for the metric */
+	value: number;
+	/** 1-based rank; tied values share a rank */
+	rank: number;
+	/** Difference from the leader's value (0 for the leader, negative otherwise) */
+	deltaFromLeader: number;
+}
+
+/**
+ * Languages shared between two compared users.
+ */
+export interface LanguagePairOverlap {
+	/** The two users being compared */
+	users: [string, string];
+	/** Languages present in both users' top languages */
+	shared: string[];
+	/** Jaccard similarity of the two top-language sets (0–1) */
+	similarity: number;
+}
+
+/**
+ * Side-by-side comparison of several users' stats.
+ * Returned by the /compare endpoint.
+ */
+export interface GitHubComparison {
+	/** Per-user results in request order */
+	users: CompareEntry[];
+	/** Rankings per metric, best first, over users that resolved successfully */
+	rankings: Record<string, MetricRank[]>;
+	/** Shared-language analysis over users that resolved successfully */
+	languages: {
+		/** Languages in every user's top languages */
+		common: string[];
+		/** Pairwise overlaps */
+		pairs: LanguagePairOverlap[];
+	};
+	/** Window used for contribution totals and streaks */
+	range: StatsRange;
+	/** ISO timestamp of when the comparison was assembled */
+	comparedAt: string;
+}
+
+// ─── Organizations ────────────────────────────────────────────────────────────
+
+/**
+ * Compact summary of a repository, used in organization stats listings.
+ */
+export interface RepoSummary {
+	/** Repository name */
+	name: string;
+	/** Repository description */
+	description: string | null;
+	/** Repository URL on github.com */
+	url: string;
+	/** Star count */
+	stars: number;
+	/** Fork count */
+	forks: number;
+	/** Primary language name */
+	primaryLanguage: string | null;
+	/** ISO timestamp of the last push */
+	pushedAt: string | null;
+}
+
+/**
+ * Aggregated statistics for a GitHub organization.
+ * Returned by the /orgs/:org/stats endpoint.
+ */
+export interface GitHubOrgStats {
+	/** Organization login */
+	org: string;
+	/** Display name of the organization */
+	name: string | null;
+	/** URL to the organization's avatar image */
+	avatarUrl: string | null;
+	/** Organization description */
+	description: string | null;
+	/** Organization location */
+	location: string | null;
+	/** URL to the organization's website */
+	websiteUrl: string | null;
+	/** ISO timestamp of organization creation */
+	createdAt: string;
+
+	/** Number of members visible to the configured token */
+	memberCount: number;
+	/** Total public, non-fork repository count */
+	totalRepos: number;
+	/** Sum of stars across aggregated repositories */
+	totalStars: number;
+	/** Sum of forks across aggregated repositories */
+	totalForks: number;
+
+	/** Mapping of language names to their percentage usage across repos */
+	topLanguages: Record<string, number>;
+	/** Total bytes of code per language across repos */
+	languageBytes: Record<string, number>;
 	/** Number of repositories with activity in the last 30 days */
 	recentRepoActivity: number;
+	/** Most recently pushed repositories */
+	recentlyActiveRepos: RepoSummary[];
+	/** Most starred repositories */
+	topRepositories: RepoSummary[];
+
+	/** Number of repositories aggregated into the figures above */
+	reposAggregated: number;
+	/** False if the repository page cap stopped aggregation before every repo was counted */
+	reposComplete: boolean;
 
 	/** ISO timestamp of when this data was fetched from GitHub */
 	lastUpdated: string;
@@ -93,6 +257,145 @@ export interface GitHubStats {
 	cacheAge?: number;
 }
 
+// ─── Repositories ─────────────────────────────────────────────────────────────
+
+/**
+ * Normalized summary of a single repository.
+ * Returned by the /repos/:owner/:repo/stats endpoint.
+ */
+export interface GitHubRepoStats {
+	/** Owner login */
+	owner: string;
+	/** Repository name */
+	name: string;
+	/** Full repository name (owner/repo) */
+	fullName: string;
+	/** Repository description */
+	description: string | null;
+	/** Repository URL on github.com */
+	url: string;
+	/** Project homepage URL */
+	homepageUrl: string | null;
+	/** Whether the repository is archived */
+	isArchived: boolean;
+	/** Whether the repository is a fork */
+	isFork: boolean;
+
+	/** Star count */
+	stars: number;
+	/** Fork count */
+	forks: number;
+	/** Watcher count */
+	watchers: number;
+	/** Open issue count */
+	openIssues: number;
+	/** Open pull request count */
+	openPullRequests: number;
+	/** Number of contributors (including anonymous), or null if GitHub won't compute it */
+	contributorCount: number | null;
+
+	/** Mapping of language names to their percentage of the codebase */
+	topLanguages: Record<string, number>;
+	/** Bytes of code per language */
+	languageBytes: Record<string, number>;
+	/** Repository topics */
+	topics: string[];
+	/** License information, if detected */
+	license: { spdxId: string | null; name: string } | null;
+	/** Latest published release, if any */
+	latestRelease: { tagName: string; name: string | null; publishedAt: string | null; url: string } | null;
+	/** Last commit on the default branch, if the repository is not empty */
+	lastCommit: {
+		branch: string;
+		sha: string;
+		message: string;
+		author: string | null;
+		committedDate: string;
+		url: string;
+	} | null;
+
+	/** ISO timestamp of repository creation */
+	createdAt: string;
+	/** ISO timestamp of the last push */
+	pushedAt: string | null;
+
+	/** ISO timestamp of when this data was fetched from GitHub */
+	lastUpdated: string;
+	/** Age of the cached data in seconds (if served from cache) */
+	cacheAge?: number;
+}
+
+// ─── Contributions ────────────────────────────────────────────────────────────
+
+/**
+ * A single day in a user's contribution calendar, as returned by /contributions.
+ */
+export interface ContributionDay {
+	/** ISO date string (YYYY-MM-DD) */
+	date: string;
+	/** Number of contributions on this day */
+	count: number;
+	/** Intensity bucket used by GitHub's graph (0 = none, 4 = highest quartile) */
+	level: 0 | 1 | 2 | 3 | 4;
+	/** Hex color GitHub uses for this day on its (light) profile graph */
+	color: string;
+}
+
+/**
+ * Per-day contribution calendar for an arbitrary date range.
+ */
+export interface ContributionCalendar {
+	/** GitHub login/username */
+	username: string;
+	/** First day of the range (YYYY-MM-DD, inclusive) */
+	from: string;
+	/** Last day of the range (YYYY-MM-DD, inclusive) */
+	to: string;
+	/** Sum of contributions over the range */
+	totalContributions: number;
+	/** Every day in the range, oldest first */
+	days: ContributionDay[];
+	/** ISO timestamp of when this data was fetched from GitHub */
+	lastUpdated: string;
+	/** Age of the cached data in seconds (if served from cache) */
+	cacheAge?: number;
+}
+
+// ─── Proxy ────────────────────────────────────────────────────────────────────
+
+/**
+ * One item of a `POST /v2/batch` request body.
+ */
+export interface ProxyBatchItem {
+	/** GitHub API path, must start with `/` */
+	endpoint: string;
+	/** Serve from / store in the general cache */
+	cache?: boolean;
+}
+
+/**
+ * Outcome of a single proxied GitHub REST call.
+ * Errors are reported in-band (`status` ≥ 400, `data.error`) so a batch never aborts.
+ */
+export interface ProxyResult {
+	/** The requested GitHub API path */
+	endpoint: string;
+	/** HTTP status we would have returned for this endpoint on its own */
+	status: number;
+	/** GitHub's response body, or `{ error }` on failure */
+	data: unknown;
+	/** Whether the body came from the general cache */
+	cached: boolean;
+	/** Seconds since the cached body was fetched or last revalidated (cached only) */
+	cacheAge?: number;
+	/** Seconds the body stays cached after it was fetched, set by endpoint pattern (`cache=true` only) */
+	cacheTtl?: number;
+	/** The cached body was confirmed unchanged by a `304 Not Modified` */
+	revalidated?: boolean;
+	/** The cached body is past its TTL, served because GitHub's rate limit budget is nearly spent */
+	stale?: boolean;
+}
+
 // ─── REST API shapes ──────────────────────────────────────────────────────────
 
 /**
@@ -202,12 +505,89 @@ export interface GraphQLContribWeek {
 	contributionDays: GraphQLContribDay[];
 }
 
+/**
+ * GitHub's quartile bucket for a contribution day.
+ */
+export type GraphQLContributionLevel =
+	| 'NONE'
+	| 'FIRST_QUARTILE'
+	| 'SECOND_QUARTILE'
+	| 'THIRD_QUARTILE'
+	| 'FOURTH_QUARTILE';
+
+/**
+ * Contributions within one yearly window of a calendar query.
+ */
+export interface GraphQLCalendarCollection {
+	/** The contribution calendar for the window */
+	contributionCalendar: {
+		/** Sum of contributions in the window */
+		totalContributions: number;
+		/** List of contribution weeks */
+		weeks: Array<{
+			/** Days in the week, including level and color */
+			contributionDays: Array<GraphQLContribDay & {
+				/** Quartile bucket */
+				contributionLevel: GraphQLContributionLevel;
+				/** Hex color of the day on GitHub's graph */
+				color: string;
+			}>;
+		}>;
+	};
+}
+
+/**
+ * Raw response structure for a date-ranged contribution calendar query, where
+ * each yearly window is an aliased `contributionsCollection` field on the user
+ * (`y0`, `y1`, ...).
+ */
+export interface GraphQLCalendarData {
+	/** Aliased yearly collections, or null if the login does not exist */
+	user: Record<string, GraphQLCalendarCollection> | null;
+}
+
+/**
+ * Generic GraphQL response envelope.
+ */
+export interface GraphQLEnvelope<T> {
+	/** The data payload, absent or null when the query failed entirely */
+	data?: T | null;
+	/** List of errors returned by the GraphQL server */
+	errors?: Array<{ message: string; type?: string }>;
+}
+
+/**
+ * GraphQL's point-based rate limit, as requested with `rateLimit { cost remaining resetAt limit }`.
+ */
+export interface GraphQLRateLimit {
+	/** Points the query cost */
+	cost: number;
+	/** Points left in the current window */
+	remaining: number;
+	/** ISO timestamp when the window resets */
+	resetAt: string;
+	/** Points per window */
+	limit?: number;
+}
+
+/**
+ * Cursor information for a paginated GraphQL connection.
+ */
+export interface GraphQLPageInfo {
+	/** Whether another page exists after this one */
+	hasNextPage: boolean;
+	/** Cursor to pass as `after` for the next page */
+	endCursor: string | null;
+}
+
 /**
  * Raw response structure from the GitHub GraphQL API for statistics.
  */
 export interface GraphQLResponse {
 	/** The data payload from GitHub */
 	data: {
+		/** Point cost and remaining GraphQL budget */
+		rateLimit?: GraphQLRateLimit | null;
 		/** User object containing all requested fields */
 		user: {
 			/** Display name */
@@ -232,6 +612,8 @@ export interface GraphQLResponse {
 			repositories: {
 				/** Total repository count */
 				totalCount: number;
+				/** Cursor for fetching the remaining pages */
+				pageInfo: GraphQLPageInfo;
 				/** Paginated repository list */
 				nodes: Array<{
 					/** Repository name */
@@ -277,3 +659,158 @@ export interface GraphQLResponse {
 
 /** Helper type for a non-null GraphQL User object */
 export type GitHubGQLUser = NonNullable<GraphQLResponse['data']['user']>;
+
+/** Helper type for a single repository node as fetched by the stats query */
+export type GraphQLRepoNode = GitHubGQLUser['repositories']['nodes'][number];
+
+/**
+ * Raw response structure for a follow-up page of the user's owned repositories.
+ */
+export interface GraphQLReposPageData {
+	/** Point cost and remaining GraphQL budget */
+	rateLimit?: GraphQLRateLimit | null;
+	/** User object, or null if the login does not exist */
+	user: {
+		/** One page of repositories */
+		repositories: {
+			/** Cursor for fetching the next page */
+			pageInfo: GraphQLPageInfo;
+			/** Repositories on this page */
+			nodes: GraphQLRepoNode[];
+		};
+	} | null;
+}
+
+/** Helper type for a single contributionsCollection as fetched by the stats query */
+export type GraphQLContributionsCollection = GitHubGQLUser['contributionsCollection'];
+
+/**
+ * Raw response structure for the all-time query, where each yearly window is
+ * an aliased `contributionsCollection` field on the user (`y0`, `y1`, ...).
+ */
+export interface GraphQLAllTimeData {
+	/** Aliased yearly collections, or null if the login does not exist */
+	user: Record<string, GraphQLContributionsCollection> | null;
+}
+
+/** Repository node as fetched by the organization stats query */
+export type GraphQLOrgRepoNode = GraphQLRepoNode & {
+	/** Repository description */
+	description: string | null;
+	/** Repository URL on github.com */
+	url: string;
+};
+
+/**
+ * Raw response structure for the organization stats query.
+ */
+export interface GraphQLOrgStatsData {
+	/** Point cost and remaining GraphQL budget */
+	rateLimit?: GraphQLRateLimit | null;
+	/** Organization object, or null if the login does not exist */
+	organization: {
+		/** Organization login */
+		login: string;
+		/** Display name */
+		name: string | null;
+		/** Avatar image URL */
+		avatarUrl: string;
+		/** Description */
+		description: string | null;
+		/** Location */
+		location: string | null;
+		/** Website URL */
+		websiteUrl: string | null;
+		/** ISO creation timestamp */
+		createdAt: string;
+		/** Member metadata */
+		membersWithRole: { totalCount: number };
+		/** First page of public repositories */
+		repositories: {
+			/** Total repository count */
+			totalCount: number;
+			/** Cursor for fetching the remaining pages */
+			pageInfo: GraphQLPageInfo;
+			/** Repositories on this page */
+			nodes: GraphQLOrgRepoNode[];
+		};
+	} | null;
+}
+
+/**
+ * Raw response structure for a follow-up page of an organization's repositories.
+ */
+export interface GraphQLOrgReposPageData {
+	/** Point cost and remaining GraphQL budget */
+	rateLimit?: GraphQLRateLimit | null;
+	/** Organization object, or null if the login does not exist */
+	organization: {
+		/** One page of repositories */
+		repositories: {
+			/** Cursor for fetching the next page */
+			pageInfo: GraphQLPageInfo;
+			/** Repositories on this page */
+			nodes: GraphQLOrgRepoNode[];
+		};
+	} | null;
+}
+
+/**
+ * Raw response structure for the single repository stats query.
+ */
+export interface GraphQLRepoStatsData {
+	/** Point cost and remaining GraphQL budget */
+	rateLimit?: GraphQLRateLimit | null;
+	/** Repository object, or null if it does not exist or is not visible */
+	repository: {
+		/** Repository name */
+		name: string;
+		/** Full repository name (owner/repo) */
+		nameWithOwner: string;
+		/** Owner metadata */
+		owner: { login: string };
+		/** Description */
+		description: string | null;
+		/** Repository URL */
+		url: string;
+		/** Homepage URL */
+		homepageUrl: string | null;
+		/** Whether the repository is archived */
+		isArchived: boolean;
+		/** Whether the repository is a fork */
+		isFork: boolean;
+		/** Star count */
+		stargazerCount: number;
+		/** Fork count */
+		forkCount: number;
+		/** Watcher metadata */
+		watchers: { totalCount: number };
+		/** Open issue metadata */
+		issues: { totalCount: number };
+		/** Open pull request metadata */
+		pullRequests: { totalCount: number };
+		/** Language breakdown */
+		languages: { edges: Array<{ size: number; node: { name: string } }> };
+		/** Topics */
+		repositoryTopics: { nodes: Array<{ topic: { name: string } }> };
+		/** Detected license */
+		licenseInfo: { spdxId: string | null; name: string } | null;
+		/** Latest release */
+		latestRelease: { tagName: string; name: string | null; publishedAt: string | null; url: string } | null;
+		/** Default branch with its head commit */
+		defaultBranchRef: {
+			name: string;
+			target: {
+				oid: string;
+				messageHeadline: string;
+				committedDate: string;
+				url: string;
+				author: { name: string | null; user: { login: string } | null } | null;
+			} | null;
+		} | null;
+		/** ISO creation timestamp */
+		createdAt: string;
+		/** ISO push timestamp */
+		pushedAt: string | null;
+	} | null;
+}
@@ -0,0 +1,20 @@
+/**
+ * Environment Helpers
+ *
+ * `dotenv.config()` runs in the entry points after every module has been
+ * imported, so settings must be read on first use rather than at import time.
+ * Modules cache what these helpers return the first time they need it.
+ */
+
+/**
+ * Reads a non-negative number from the environment.
+ *
+ * @param name - Variable name, e.g. `GITHUB_MAX_RETRIES`
+ * @param fallback - Value when the variable is unset, not a number or negative
+ * @returns The configured number, or `fallback`
+ */
+export function envNumber(name: string, fallback: number): number {
+	const raw = process.env[name]?.trim();
+	const value = Number(raw);
+	return raw && Number.isFinite(value) && value >= 0 ? value : fallback;
+}